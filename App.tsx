@@ -1,93 +1,247 @@
-import React, { useState } from 'react';
-import * as XLSX from 'xlsx';
-import { ParsedOT, ColumnMapping, ProcessingReport } from './types';
-import { loadWorkbook, processSheet, getSheetHeaders } from './utils/excelHelpers';
+import React, { useState, useRef, useCallback } from 'react';
+import { ParsedOT, ExcelRow, ColumnMapping, ProcessingReport, InternalClient, SheetRef, SheetLayout, SheetPreview, MappingSample, DelimitedTextOptions, CalendarSettings, DedupStrategy, ProcessingProgress } from './types';
+import { getSourceLabel } from './utils/excelHelpers';
+import { readWorkbooks, fetchMappingSample, processInWorker, fetchSourceRow, cancelProcessing, isCancelled } from './utils/processingClient';
+import { loadInternalClients, saveInternalClients } from './utils/internalClients';
+import { loadCalendarSettings, saveCalendarSettings } from './utils/calendar';
+import { getDefaultStatusOptions } from './utils/statusClassifier';
+import { loadDedupStrategy, saveDedupStrategy } from './utils/dedupStrategy';
 import FileUploader from './components/FileUploader';
 import ColumnMapper from './components/ColumnMapper';
 import Dashboard from './components/Dashboard';
-import { LayoutDashboard, Github, Table as TableIcon } from 'lucide-react';
+import InternalClientsModal from './components/InternalClientsModal';
+import CalendarSettingsModal from './components/CalendarSettingsModal';
+import DedupSettingsModal from './components/DedupSettingsModal';
+import ProcessingOverlay from './components/ProcessingOverlay';
+import SheetLayoutPicker from './components/SheetLayoutPicker';
+import TextImportOptions from './components/TextImportOptions';
+import { LayoutDashboard, Github, Table as TableIcon, Settings, FilePlus, FileSpreadsheet, CalendarDays, Layers } from 'lucide-react';
+
+interface LoadedFile {
+  fileName: string;
+  file: File; // Parsed inside the worker; kept so it can be read again after a cancel
+  sheetNames: string[];
+  layouts: Record<string, SheetLayout>; // Header rows by sheet, detected or set by the user
+  previews: Record<string, SheetPreview>;
+  textOptions?: DelimitedTextOptions; // Only for CSV/TSV/TXT files
+}
 
 const App: React.FC = () => {
   // State for flow control
-  const [workbook, setWorkbook] = useState<XLSX.WorkBook | null>(null);
-  const [sheetNames, setSheetNames] = useState<string[]>([]);
-  const [selectedSheet, setSelectedSheet] = useState<string | null>(null);
+  const [files, setFiles] = useState<LoadedFile[]>([]);
+  const [checkedSources, setCheckedSources] = useState<string[]>([]); // Source labels ticked in the sheet step
+  const [selectedSources, setSelectedSources] = useState<SheetRef[] | null>(null);
+  const addFilesInputRef = useRef<HTMLInputElement>(null);
 
   // Mapping State
-  const [sheetHeaders, setSheetHeaders] = useState<string[]>([]);
+  const [mappingSample, setMappingSample] = useState<MappingSample | null>(null);
   const [mapping, setMapping] = useState<ColumnMapping | null>(null);
 
   // State for Data
   const [allRows, setAllRows] = useState<ParsedOT[] | null>(null);
   const [uniqueOTs, setUniqueOTs] = useState<ParsedOT[] | null>(null);
   const [processingReport, setProcessingReport] = useState<ProcessingReport | null>(null);
-  const [fileName, setFileName] = useState<string>('');
 
   const [loading, setLoading] = useState<boolean>(false);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const handleFileUpload = async (file: File) => {
+  // Settings (persisted in the browser)
+  const [internalClients, setInternalClients] = useState<InternalClient[]>(loadInternalClients);
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [calendarSettings, setCalendarSettings] = useState<CalendarSettings>(loadCalendarSettings);
+  const [isCalendarOpen, setIsCalendarOpen] = useState<boolean>(false);
+  const [dedupStrategy, setDedupStrategy] = useState<DedupStrategy>(loadDedupStrategy);
+  const [isDedupOpen, setIsDedupOpen] = useState<boolean>(false);
+
+  const startLoading = () => {
     setLoading(true);
+    setProgress(null);
     setError(null);
-    setFileName(file.name);
+  };
+
+  const stopLoading = () => {
+    setLoading(false);
+    setProgress(null);
+  };
+
+  const handleFileUpload = async (uploaded: File[]) => {
+    startLoading();
     try {
-      const { workbook: wb, sheetNames: sheets } = await loadWorkbook(file);
-      setWorkbook(wb);
-      setSheetNames(sheets);
+      const sheets = await readWorkbooks(uploaded.map(file => ({ file })), setProgress);
+      const loaded: LoadedFile[] = sheets.map((entry, index) => ({ ...entry, file: uploaded[index] }));
+      // A file uploaded again with the same name replaces the previous one
+      const nextFiles = [...files.filter(f => !loaded.some(l => l.fileName === f.fileName)), ...loaded];
+      setFiles(nextFiles);
 
-      if (sheets.length === 1) {
-        selectSheetForMapping(wb, sheets[0]);
+      // A single Excel sheet with its headers on the first row goes straight to the mapping step;
+      // anything else is shown so the detected header rows and text options can be checked
+      const [only] = nextFiles;
+      if (nextFiles.length === 1 && only.sheetNames.length === 1) {
+        const sheetName = only.sheetNames[0];
+        const layout = only.layouts[sheetName];
+        if (!only.textOptions && layout.headerRow === only.previews[sheetName].firstRow && layout.headerRowCount === 1) {
+          await selectSourcesForMapping([{ fileName: only.fileName, sheetName, layout }], nextFiles);
+        } else {
+          setCheckedSources([getSourceLabel({ fileName: only.fileName, sheetName })]);
+        }
       }
     } catch (err: unknown) {
-      console.error(err);
-      setError("Error leyendo el archivo. Verifica que sea un Excel válido.");
+      if (!isCancelled(err)) {
+        console.error(err);
+        setError("Error leyendo el archivo. Verifica que sea un Excel o CSV válido.");
+      }
     } finally {
-      setLoading(false);
+      stopLoading();
     }
   };
 
-  const selectSheetForMapping = (wb: XLSX.WorkBook, name: string) => {
-    setSelectedSheet(name);
-    const headers = getSheetHeaders(wb, name);
-    setSheetHeaders(headers);
+  const filesFor = (sources: SheetRef[], available: LoadedFile[] = files) =>
+    available.filter(f => sources.some(s => s.fileName === f.fileName)).map(f => ({ file: f.file, textOptions: f.textOptions }));
+
+  // Reads a text file again with the options picked in the preview; header rows are detected anew
+  const handleTextOptionsChange = async (loadedFile: LoadedFile, textOptions: DelimitedTextOptions) => {
+    startLoading();
+    try {
+      const [entry] = await readWorkbooks([{ file: loadedFile.file, textOptions }], setProgress);
+      setFiles(prev => prev.map(f => f.fileName === loadedFile.fileName ? { ...entry, file: loadedFile.file } : f));
+    } catch (err) {
+      if (!isCancelled(err)) {
+        console.error(err);
+        setError("Error leyendo el archivo con las opciones elegidas.");
+      }
+    } finally {
+      stopLoading();
+    }
+  };
+
+  const handleCancel = () => {
+    cancelProcessing();
+    stopLoading();
   };
 
-  const handleSheetSelection = (name: string) => {
-    if (workbook) {
-      selectSheetForMapping(workbook, name);
+  const handleAddFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const list = e.target.files ? Array.from<File>(e.target.files) : [];
+    e.target.value = '';
+    if (list.length > 0) {
+      handleFileUpload(list);
     }
   };
 
-  const handleMappingConfirm = (map: ColumnMapping) => {
-    if (workbook && selectedSheet) {
-      setLoading(true);
+  const selectSourcesForMapping = async (sources: SheetRef[], available: LoadedFile[] = files) => {
+    const sample = await fetchMappingSample(filesFor(sources, available), sources);
+    setMappingSample(sample);
+    setSelectedSources(sources);
+  };
+
+  const toggleSource = (label: string) => {
+    setCheckedSources(prev => prev.includes(label) ? prev.filter(l => l !== label) : [...prev, label]);
+  };
+
+  const updateLayout = (fileName: string, sheetName: string, layout: SheetLayout) => {
+    setFiles(prev => prev.map(f => f.fileName === fileName ? { ...f, layouts: { ...f.layouts, [sheetName]: layout } } : f));
+  };
+
+  const handleSheetSelection = async () => {
+    const sources: SheetRef[] = [];
+    files.forEach(file => {
+      file.sheetNames.forEach(sheetName => {
+        const source = { fileName: file.fileName, sheetName, layout: file.layouts[sheetName] };
+        if (checkedSources.includes(getSourceLabel(source))) sources.push(source);
+      });
+    });
+    if (sources.length === 0) return;
+    startLoading();
+    try {
+      await selectSourcesForMapping(sources);
+    } catch (err) {
+      if (!isCancelled(err)) {
+        console.error(err);
+        setError("Error leyendo las hojas seleccionadas.");
+      }
+    } finally {
+      stopLoading();
+    }
+  };
+
+  const runProcessing = async (map: ColumnMapping, clients: InternalClient[], strategy: DedupStrategy) => {
+    if (selectedSources && selectedSources.length > 0) {
+      startLoading();
       try {
-        const result = processSheet(workbook, selectedSheet, map);
+        // The dashboard re-classifies with its own reference date; this is the initial status
+        const result = await processInWorker(
+          filesFor(selectedSources),
+          selectedSources,
+          map,
+          clients,
+          { ...getDefaultStatusOptions(), calendar: calendarSettings },
+          strategy,
+          setProgress
+        );
         setAllRows(result.allRows);
         setUniqueOTs(result.uniqueOTs);
         setProcessingReport(result.report);
         setMapping(map);
       } catch (err) {
-        console.error(err);
-        setError("Error procesando los datos. Revisa la asignación de columnas.");
+        if (!isCancelled(err)) {
+          console.error(err);
+          setError("Error procesando los datos. Revisa la asignación de columnas.");
+        }
       } finally {
-        setLoading(false);
+        stopLoading();
       }
     }
   };
 
+  // The worker still holds the processed workbooks; stable between renders so an open row is not read again
+  const loadSourceRow = useCallback(async (ot: ParsedOT): Promise<ExcelRow | null> => {
+    const source = (selectedSources || []).find(s => s.fileName === ot.sourceFile && s.sheetName === ot.sourceSheet);
+    if (!source) return null;
+    return fetchSourceRow(filesFor([source]), source, ot.sourceRow);
+  }, [selectedSources, files]);
+
+  const handleMappingConfirm = (map: ColumnMapping) => {
+    runProcessing(map, internalClients, dedupStrategy);
+  };
+
+  const handleInternalClientsSave = (clients: InternalClient[]) => {
+    setInternalClients(clients);
+    saveInternalClients(clients);
+    // Re-process so the flags and the audit breakdown reflect the new registry
+    if (mapping) {
+      runProcessing(mapping, clients, dedupStrategy);
+    }
+  };
+
+  const handleCalendarSave = (settings: CalendarSettings) => {
+    setCalendarSettings(settings);
+    saveCalendarSettings(settings);
+  };
+
+  const handleDedupSave = (strategy: DedupStrategy) => {
+    setDedupStrategy(strategy);
+    saveDedupStrategy(strategy);
+    // Unique OTs depend on the strategy, so the loaded data is resolved again
+    if (mapping) {
+      runProcessing(mapping, internalClients, strategy);
+    }
+  };
+
   const handleReset = () => {
     setAllRows(null);
     setUniqueOTs(null);
     setProcessingReport(null);
-    setWorkbook(null);
-    setSheetNames([]);
-    setSelectedSheet(null);
+    setFiles([]);
+    setCheckedSources([]);
+    setSelectedSources(null);
+    setMappingSample(null);
     setMapping(null);
-    setFileName('');
     setError(null);
   };
 
+  const sourceFileNames = Array.from(new Set((selectedSources || []).map(s => s.fileName))).join(', ');
+  const sourceSheetNames = (selectedSources || []).map(s => s.sheetName).join(', ');
+
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 flex flex-col font-sans">
       <nav className="bg-white border-b border-slate-200 sticky top-0 z-50">
@@ -103,11 +257,56 @@ const App: React.FC = () => {
             </div>
             <div className="flex items-center gap-4">
               <span className="text-sm text-slate-500 hidden sm:inline-block"></span>
+              <button
+                onClick={() => setIsCalendarOpen(true)}
+                className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-600 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-lg transition-colors"
+                title="Configurar tolerancia y feriados"
+              >
+                <CalendarDays size={16} />
+                <span className="hidden sm:inline">Calendario</span>
+              </button>
+              <button
+                onClick={() => setIsDedupOpen(true)}
+                className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-600 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-lg transition-colors"
+                title="Configurar resolución de OTs duplicadas"
+              >
+                <Layers size={16} />
+                <span className="hidden sm:inline">Duplicados</span>
+              </button>
+              <button
+                onClick={() => setIsSettingsOpen(true)}
+                className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-600 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-lg transition-colors"
+                title="Configurar clientes internos"
+              >
+                <Settings size={16} />
+                <span className="hidden sm:inline">Clientes Internos</span>
+              </button>
             </div>
           </div>
         </div>
       </nav>
 
+      <InternalClientsModal
+        clients={internalClients}
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        onSave={handleInternalClientsSave}
+      />
+      <CalendarSettingsModal
+        settings={calendarSettings}
+        isOpen={isCalendarOpen}
+        onClose={() => setIsCalendarOpen(false)}
+        onSave={handleCalendarSave}
+      />
+      <DedupSettingsModal
+        strategy={dedupStrategy}
+        isOpen={isDedupOpen}
+        onClose={() => setIsDedupOpen(false)}
+        onSave={handleDedupSave}
+      />
+
+      {loading && <ProcessingOverlay progress={progress} onCancel={handleCancel} />}
+
       <main className="flex-grow max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 w-full">
         {error && (
           <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-r shadow-sm animate-fade-in">
@@ -124,7 +323,7 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {!workbook && !loading && (
+        {files.length === 0 && !loading && (
           <div className="flex flex-col items-center justify-center min-h-[60vh] animate-fade-in-up">
             <div className="text-center mb-8">
               <h2 className="text-3xl font-bold text-slate-900 mb-4">Sube tu Reporte de Órdenes de Trabajo</h2>
@@ -141,7 +340,7 @@ const App: React.FC = () => {
               </div>
               <div className="p-4 bg-white rounded-lg shadow-sm border border-slate-100">
                 <span className="block font-semibold text-slate-700 mb-1">Gestión de Reclamos</span>
-                Identificación automática de reclamos (C0008157) con reportes específicos.
+                Identificación de reclamos mediante reglas configurables, con reportes por categoría.
               </div>
               <div className="p-4 bg-white rounded-lg shadow-sm border border-slate-100">
                 <span className="block font-semibold text-slate-700 mb-1">Auditoría Transparente</span>
@@ -151,32 +350,94 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {workbook && !selectedSheet && (
+        {files.length > 0 && !selectedSources && (
           <div className="max-w-2xl mx-auto mt-12 animate-fade-in">
             <div className="bg-white rounded-xl shadow-lg border border-slate-100 overflow-hidden">
               <div className="p-6 border-b border-slate-100 bg-slate-50">
                 <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
                   <TableIcon className="text-blue-600" />
-                  Selecciona una Hoja
+                  Selecciona las Hojas
                 </h2>
-                <p className="text-sm text-slate-500 mt-1">El archivo contiene múltiples hojas. Elige cual analizar.</p>
+                <p className="text-sm text-slate-500 mt-1">Elige una o varias hojas (de uno o más archivos) para combinarlas en un solo análisis.</p>
               </div>
-              <div className="p-6">
-                <div className="grid grid-cols-1 gap-3">
-                  {sheetNames.map((name) => (
-                    <button
-                      key={name}
-                      onClick={() => handleSheetSelection(name)}
-                      className="flex items-center justify-between p-4 rounded-lg border border-slate-200 hover:border-blue-500 hover:bg-blue-50 transition-all group text-left"
-                    >
-                      <span className="font-medium text-slate-700 group-hover:text-blue-700">{name}</span>
-                      <span className="text-slate-400 group-hover:text-blue-500 text-sm">Analizar →</span>
-                    </button>
-                  ))}
+              <div className="p-6 space-y-5">
+                {files.map(file => (
+                  <div key={file.fileName}>
+                    <h3 className="text-sm font-semibold text-slate-600 flex items-center gap-2 mb-2">
+                      <FileSpreadsheet size={16} className="text-green-600" /> {file.fileName}
+                    </h3>
+                    {file.textOptions && (
+                      <TextImportOptions
+                        options={file.textOptions}
+                        onChange={(options) => handleTextOptionsChange(file, options)}
+                      />
+                    )}
+                    <div className="grid grid-cols-1 gap-2">
+                      {file.sheetNames.map((name) => {
+                        const label = getSourceLabel({ fileName: file.fileName, sheetName: name });
+                        const checked = checkedSources.includes(label);
+                        return (
+                          <div
+                            key={label}
+                            className={`p-3 rounded-lg border transition-all ${
+                              checked ? 'border-blue-500 bg-blue-50/40' : 'border-slate-200 hover:border-blue-300'
+                            }`}
+                          >
+                            <label className="flex items-center gap-3 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                className="rounded text-blue-600 focus:ring-blue-500"
+                                checked={checked}
+                                onChange={() => toggleSource(label)}
+                              />
+                              <span className="font-medium text-slate-700">{name}</span>
+                              {!checked && (
+                                <span className="text-xs text-slate-400">
+                                  Encabezados en fila {file.layouts[name].headerRow}{file.layouts[name].headerRowCount === 2 ? ' (dos filas)' : ''}
+                                </span>
+                              )}
+                            </label>
+                            {checked && (
+                              <SheetLayoutPicker
+                                layout={file.layouts[name]}
+                                preview={file.previews[name]}
+                                onChange={(layout) => updateLayout(file.fileName, name, layout)}
+                              />
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between pt-2">
+                  <button
+                    onClick={() => addFilesInputRef.current?.click()}
+                    className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-800"
+                  >
+                    <FilePlus size={16} /> Agregar otro archivo
+                  </button>
+                  <input
+                    ref={addFilesInputRef}
+                    type="file"
+                    accept=".xlsx, .xls, .csv, .tsv, .txt"
+                    multiple
+                    className="hidden"
+                    onChange={handleAddFiles}
+                  />
+                  <button
+                    onClick={handleSheetSelection}
+                    disabled={checkedSources.length === 0}
+                    className={`px-5 py-2 rounded-lg text-white text-sm font-medium transition-all ${
+                      checkedSources.length > 0 ? 'bg-blue-600 hover:bg-blue-700 shadow-md' : 'bg-slate-300 cursor-not-allowed'
+                    }`}
+                  >
+                    Analizar {checkedSources.length > 1 ? `${checkedSources.length} hojas` : ''} →
+                  </button>
                 </div>
                 <button
                   onClick={handleReset}
-                  className="mt-6 text-sm text-slate-500 hover:text-slate-700 underline"
+                  className="text-sm text-slate-500 hover:text-slate-700 underline"
                 >
                   Cancelar y subir otro archivo
                 </button>
@@ -185,11 +446,12 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {selectedSheet && !uniqueOTs && (
+        {selectedSources && mappingSample && !uniqueOTs && (
           <ColumnMapper
-            headers={sheetHeaders}
+            sample={mappingSample}
+            internalClients={internalClients}
             onConfirm={handleMappingConfirm}
-            onCancel={() => setSelectedSheet(null)}
+            onCancel={() => setSelectedSources(null)}
           />
         )}
 
@@ -199,9 +461,12 @@ const App: React.FC = () => {
             allRows={allRows}
             report={processingReport || undefined}
             onReset={handleReset}
-            fileName={fileName}
-            sheetName={selectedSheet || ''}
+            fileName={sourceFileNames}
+            sheetName={sourceSheetNames}
             mapping={mapping}
+            internalClients={internalClients}
+            calendarSettings={calendarSettings}
+            loadSourceRow={loadSourceRow}
           />
         )}
       </main>
@@ -1,20 +1,68 @@
-import React, { useState } from 'react';
-import { ProcessingReport } from '../types';
-import { X, ShieldCheck, FileText, AlertTriangle, Trash2, Users, ChevronDown, ChevronUp } from 'lucide-react';
+import React, { useState, useMemo } from 'react';
+import * as XLSX from 'xlsx';
+import { ProcessingReport, InternalClient, DataQualityIssueType } from '../types';
+import { getInternalClientLabel } from '../utils/internalClients';
+import { describeDedupStrategy } from '../utils/dedupStrategy';
+import { DATE_FORMAT_LABELS } from '../utils/dateParsing';
+import { DATA_QUALITY_LABELS, ALL_DATA_QUALITY_TYPES, countIssuesByType, getDataQualityScore } from '../utils/dataQuality';
+import { X, ShieldCheck, FileText, AlertTriangle, Trash2, Users, ChevronDown, ChevronUp, ClipboardCheck, Download, Search, CalendarDays } from 'lucide-react';
 
 interface AuditModalProps {
   report: ProcessingReport;
+  internalClients: InternalClient[];
   isOpen: boolean;
   onClose: () => void;
+  onSelectOT?: (otId: string) => void; // Opens the OT detail
 }
 
-const AuditModal: React.FC<AuditModalProps> = ({ report, isOpen, onClose }) => {
+const AuditModal: React.FC<AuditModalProps> = ({ report, internalClients, isOpen, onClose, onSelectOT }) => {
   const [showDeletedList, setShowDeletedList] = useState(false);
+  const [showResolutions, setShowResolutions] = useState(false);
+  const [issueType, setIssueType] = useState<DataQualityIssueType | 'all'>('all');
+  const [issueSearch, setIssueSearch] = useState('');
+
+  const issueCounts = useMemo(() => countIssuesByType(report.issues), [report.issues]);
+
+  const filteredIssues = useMemo(() => {
+    const term = issueSearch.trim().toLowerCase();
+    return report.issues.filter(issue => {
+      if (issueType !== 'all' && issue.type !== issueType) return false;
+      if (!term) return true;
+      return [issue.otId, issue.field, issue.value, issue.message, issue.sourceFile, issue.sourceSheet]
+        .some(text => text.toLowerCase().includes(term));
+    });
+  }, [report.issues, issueType, issueSearch]);
 
   if (!isOpen) return null;
 
+  const qualityScore = getDataQualityScore(report);
+
+  const handleExportIssues = () => {
+    const rows = filteredIssues.map(issue => ({
+      'Archivo': issue.sourceFile,
+      'Hoja': issue.sourceSheet,
+      'Fila': issue.rowNumber,
+      'Campo': issue.field,
+      'Nro OT': issue.otId,
+      'Problema': DATA_QUALITY_LABELS[issue.type],
+      'Valor': issue.value,
+      'Detalle': issue.message
+    }));
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), 'Calidad_Datos');
+    XLSX.writeFile(wb, 'Calidad_Datos.xlsx');
+  };
+
   const validRows = report.totalRows - report.emptyRows - report.duplicatesRemovedForCompliance;
 
+  const renderOtId = (otId: string, className: string) => (onSelectOT && otId ? (
+    <button onClick={() => onSelectOT(otId)} className={`${className} text-blue-700 hover:underline`} title="Ver detalle de la OT">
+      {otId}
+    </button>
+  ) : (
+    <span className={className}>{otId}</span>
+  ));
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm animate-fade-in">
       <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden m-4 border border-slate-200">
@@ -56,6 +104,10 @@ const AuditModal: React.FC<AuditModalProps> = ({ report, isOpen, onClose }) => {
                     <span className="text-xs text-green-600 font-medium">Filas Únicas</span>
                 </div>
             </div>
+            <p className="text-xs text-slate-500 -mt-3">
+                Al procesar: <strong>{report.summary.totalOTs}</strong> OTs únicas con <strong>{report.summary.averageCompliance}%</strong> de cumplimiento
+                (antes de aplicar filtros y la fecha de corte del tablero).
+            </p>
 
             <hr className="border-slate-100" />
 
@@ -69,9 +121,35 @@ const AuditModal: React.FC<AuditModalProps> = ({ report, isOpen, onClose }) => {
                 <div className="w-full">
                     <h4 className="font-semibold text-slate-800">Eliminación de Duplicados</h4>
                     <p className="text-sm text-slate-600 mt-1">
-                        Se detectaron <strong>{report.duplicatesRemovedForCompliance}</strong> conflictos de OT.
-                        Se priorizó clientes externos sobre internos.
+                        Se detectaron <strong>{report.duplicatesRemovedForCompliance}</strong> conflictos de OT
+                        en <strong>{report.dedupResolutions.length}</strong> OTs.
+                    </p>
+                    <p className="text-xs text-slate-500 mt-1">
+                        Estrategia: {describeDedupStrategy(report.dedupStrategy)}
                     </p>
+
+                    {report.dedupResolutions.length > 0 && (
+                        <div className="mt-3">
+                            <button
+                                onClick={() => setShowResolutions(!showResolutions)}
+                                className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800"
+                            >
+                                {showResolutions ? <ChevronUp size={14}/> : <ChevronDown size={14} />}
+                                {showResolutions ? 'Ocultar resolución por OT' : 'Ver resolución por OT'}
+                            </button>
+
+                            {showResolutions && (
+                                <div className="mt-2 p-2 bg-slate-50 border border-slate-200 rounded text-xs text-slate-600 max-h-40 overflow-y-auto">
+                                    {report.dedupResolutions.map(resolution => (
+                                        <div key={resolution.otId} className="border-b border-slate-100 last:border-0 py-1">
+                                            {renderOtId(resolution.otId, 'font-mono font-medium text-slate-700')} ({resolution.rows} filas): {resolution.outcome}
+                                            <span className="text-slate-400"> — se conservó {resolution.kept}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
                     
                     {report.removedOtIds.length > 0 && (
                         <div className="mt-3">
@@ -97,6 +175,177 @@ const AuditModal: React.FC<AuditModalProps> = ({ report, isOpen, onClose }) => {
                 </div>
             </div>
 
+            {/* Data Quality */}
+            <div className="flex gap-4 items-start">
+                <div className="mt-1 flex-shrink-0">
+                    <ClipboardCheck className="text-blue-500" size={20} />
+                </div>
+                <div className="w-full">
+                    <div className="flex justify-between items-start gap-2">
+                        <div>
+                            <h4 className="font-semibold text-slate-800">Calidad de Datos</h4>
+                            <p className="text-sm text-slate-600 mt-1">
+                                <strong>{qualityScore}%</strong> de las filas no presenta observaciones
+                                ({report.issues.length} observaciones en total).
+                            </p>
+                        </div>
+                        {report.issues.length > 0 && (
+                            <button
+                                onClick={handleExportIssues}
+                                className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 border border-blue-200 rounded-md transition-colors"
+                            >
+                                <Download size={12} /> Exportar
+                            </button>
+                        )}
+                    </div>
+
+                    {report.issues.length > 0 && (
+                        <div className="mt-3 space-y-2">
+                            <div className="flex flex-wrap gap-2">
+                                <button
+                                    onClick={() => setIssueType('all')}
+                                    className={`px-2 py-1 rounded text-xs font-medium border ${issueType === 'all' ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-600 border-slate-200'}`}
+                                >
+                                    Todas: {report.issues.length}
+                                </button>
+                                {ALL_DATA_QUALITY_TYPES.filter(type => issueCounts[type] > 0).map(type => (
+                                    <button
+                                        key={type}
+                                        onClick={() => setIssueType(type)}
+                                        className={`px-2 py-1 rounded text-xs font-medium border ${issueType === type ? 'bg-orange-600 text-white border-orange-600' : 'bg-orange-50 text-orange-700 border-orange-100'}`}
+                                    >
+                                        {DATA_QUALITY_LABELS[type]}: {issueCounts[type]}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="relative">
+                                <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+                                <input
+                                    type="text"
+                                    className="w-full text-xs border border-slate-300 rounded-md pl-7 pr-2 py-1.5"
+                                    placeholder="Buscar por OT, campo, valor o archivo..."
+                                    value={issueSearch}
+                                    onChange={(e) => setIssueSearch(e.target.value)}
+                                />
+                            </div>
+                            <div className="border border-slate-200 rounded max-h-48 overflow-y-auto">
+                                <table className="w-full text-xs text-left">
+                                    <thead className="bg-slate-100 text-slate-600 sticky top-0">
+                                        <tr>
+                                            <th className="px-2 py-1">Fila</th>
+                                            <th className="px-2 py-1">OT</th>
+                                            <th className="px-2 py-1">Campo</th>
+                                            <th className="px-2 py-1">Detalle</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100">
+                                        {filteredIssues.slice(0, 200).map((issue, idx) => (
+                                            <tr key={idx} title={`${issue.sourceFile} / ${issue.sourceSheet}`}>
+                                                <td className="px-2 py-1 font-mono">{issue.rowNumber}</td>
+                                                <td className="px-2 py-1">{renderOtId(issue.otId, 'font-mono')}</td>
+                                                <td className="px-2 py-1">{issue.field}</td>
+                                                <td className="px-2 py-1 text-slate-600">
+                                                    <span className="font-medium text-slate-700">{DATA_QUALITY_LABELS[issue.type]}:</span> {issue.message}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                        {filteredIssues.length > 200 && (
+                                            <tr>
+                                                <td colSpan={4} className="px-2 py-1 text-center text-slate-500 italic">
+                                                    ... y {filteredIssues.length - 200} más (use Exportar para verlas todas)
+                                                </td>
+                                            </tr>
+                                        )}
+                                        {filteredIssues.length === 0 && (
+                                            <tr>
+                                                <td colSpan={4} className="px-2 py-2 text-center text-slate-500 italic">Sin coincidencias</td>
+                                            </tr>
+                                        )}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Date Formats */}
+            {report.dateColumns.length > 0 && (
+                <div className="flex gap-4 items-start">
+                    <div className="mt-1 flex-shrink-0">
+                        <CalendarDays className="text-slate-500" size={20} />
+                    </div>
+                    <div className="w-full">
+                        <h4 className="font-semibold text-slate-800">Formatos de Fecha</h4>
+                        <div className="mt-2 space-y-2">
+                            {report.dateColumns.map(col => (
+                                <div key={col.column} className="text-sm text-slate-600">
+                                    <span className="font-medium text-slate-700">{col.column}</span>: leída como <strong>{DATE_FORMAT_LABELS[col.format]}</strong>
+                                    {col.configured === 'auto' ? ' (detectado)' : ' (configurado)'}.
+                                    {col.unparsed > 0 && <span className="text-red-600"> {col.unparsed} valor(es) sin reconocer.</span>}
+                                    {col.inconsistent && (
+                                        <p className="text-xs text-red-600 mt-0.5">
+                                            La columna mezcla fechas que solo pueden ser DD/MM con otras que solo pueden ser MM/DD.
+                                        </p>
+                                    )}
+                                    {col.ambiguous > 0 && (
+                                        <p className="text-xs text-orange-600 mt-0.5">
+                                            {col.ambiguous} fecha(s) ambiguas (ej. {col.examples.join(', ')}); verifique el formato en la asignación de columnas.
+                                        </p>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Sources */}
+            {report.sources.length > 0 && (
+                <div className="flex gap-4 items-start">
+                    <div className="mt-1 flex-shrink-0">
+                        <FileText className="text-slate-500" size={20} />
+                    </div>
+                    <div className="w-full">
+                        <h4 className="font-semibold text-slate-800">Origen de los Datos</h4>
+                        <p className="text-sm text-slate-600 mt-1">
+                            Se combinaron <strong>{report.sources.length}</strong> hoja(s). Los duplicados de OT se resuelven entre todos los archivos.
+                        </p>
+                        <div className="mt-2 border border-slate-200 rounded overflow-hidden">
+                            <table className="w-full text-xs text-left">
+                                <thead className="bg-slate-100 text-slate-600">
+                                    <tr>
+                                        <th className="px-2 py-1">Archivo / Hoja</th>
+                                        <th className="px-2 py-1 text-right">Encabezado</th>
+                                        <th className="px-2 py-1 text-right">Filas</th>
+                                        <th className="px-2 py-1 text-right">Vacías</th>
+                                        <th className="px-2 py-1 text-right">Duplicados</th>
+                                        <th className="px-2 py-1 text-right">OTs Únicas</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100">
+                                    {report.sources.map(source => (
+                                        <tr key={`${source.fileName}/${source.sheetName}`}>
+                                            <td className="px-2 py-1">
+                                                <span className="text-slate-700">{source.fileName}</span>
+                                                <span className="text-blue-600 font-medium"> / {source.sheetName}</span>
+                                            </td>
+                                            <td className="px-2 py-1 text-right">
+                                                Fila {source.headerRow}{source.headerRowCount === 2 ? `-${source.headerRow + 1}` : ''}
+                                            </td>
+                                            <td className="px-2 py-1 text-right">{source.totalRows}</td>
+                                            <td className="px-2 py-1 text-right">{source.emptyRows}</td>
+                                            <td className="px-2 py-1 text-right text-red-600">{source.duplicatesRemoved}</td>
+                                            <td className="px-2 py-1 text-right text-green-600 font-medium">{source.uniqueOTs}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Internal Clients */}
             <div className="flex gap-4">
                 <div className="mt-1 flex-shrink-0">
@@ -106,14 +355,17 @@ const AuditModal: React.FC<AuditModalProps> = ({ report, isOpen, onClose }) => {
                     <h4 className="font-semibold text-slate-800">Clientes Internos Detectados</h4>
                     <p className="text-sm text-slate-600 mt-1">
                         Existen <strong>{report.internalClientsCount}</strong> registros de códigos internos en los datos actuales.
-                        El código <strong>C0008157</strong> se utiliza para identificación de Reclamos.
+                        Los reclamos se identifican con las reglas configuradas en el tablero.
                     </p>
                     <div className="mt-2 flex flex-wrap gap-2">
-                        {Object.entries(report.internalClientsByCode).map(([code, count]) => (
-                            <span key={code} className="inline-flex items-center px-2 py-1 rounded bg-blue-50 text-blue-700 text-xs font-medium border border-blue-100">
-                                {code}: {count}
-                            </span>
-                        ))}
+                        {Object.entries(report.internalClientsByCode).map(([code, count]) => {
+                            const label = getInternalClientLabel(internalClients, code);
+                            return (
+                                <span key={code} className="inline-flex items-center px-2 py-1 rounded bg-blue-50 text-blue-700 text-xs font-medium border border-blue-100">
+                                    {code}{label ? ` (${label})` : ''}: {count}
+                                </span>
+                            );
+                        })}
                     </div>
                 </div>
             </div>
@@ -133,6 +385,21 @@ const AuditModal: React.FC<AuditModalProps> = ({ report, isOpen, onClose }) => {
                 </div>
             )}
 
+             {/* Total Rows */}
+             {report.subtotalRows > 0 && (
+                <div className="flex gap-4">
+                    <div className="mt-1 flex-shrink-0">
+                        <AlertTriangle className="text-slate-400" size={20} />
+                    </div>
+                    <div>
+                        <h4 className="font-semibold text-slate-800">Filas de Totales</h4>
+                        <p className="text-sm text-slate-600 mt-1">
+                            <strong>{report.subtotalRows}</strong> filas de Total o Subtotal ignoradas para no duplicar importes.
+                        </p>
+                    </div>
+                </div>
+            )}
+
         </div>
 
         {/* Footer */}
@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarSettings } from '../types';
+import { X, CalendarDays, Plus, Trash2, RotateCcw } from 'lucide-react';
+import { DEFAULT_CALENDAR_SETTINGS, isValidHolidayDate } from '../utils/calendar';
+
+interface CalendarSettingsModalProps {
+  settings: CalendarSettings;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (settings: CalendarSettings) => void;
+}
+
+const CalendarSettingsModal: React.FC<CalendarSettingsModalProps> = ({ settings, isOpen, onClose, onSave }) => {
+  const [draft, setDraft] = useState<CalendarSettings>(settings);
+  const [newDate, setNewDate] = useState('');
+  const [newName, setNewName] = useState('');
+
+  // Reset the draft every time the panel is opened
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(settings);
+      setNewDate('');
+      setNewName('');
+    }
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const trimmedDate = newDate.trim();
+  const canAdd = isValidHolidayDate(trimmedDate) && !draft.holidays.some(h => h.date === trimmedDate);
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    const holidays = [...draft.holidays, { date: trimmedDate, name: newName.trim() }]
+      .sort((a, b) => a.date.localeCompare(b.date));
+    setDraft({ ...draft, holidays });
+    setNewDate('');
+    setNewName('');
+  };
+
+  const handleRemove = (date: string) => {
+    setDraft({ ...draft, holidays: draft.holidays.filter(h => h.date !== date) });
+  };
+
+  const handleSave = () => {
+    onSave({ ...draft, graceDays: Math.max(0, Math.floor(draft.graceDays || 0)) });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl overflow-hidden m-4 border border-slate-200">
+
+        {/* Header */}
+        <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+                <CalendarDays size={20} />
+            </div>
+            <div>
+                <h3 className="text-lg font-bold text-slate-800">Tolerancia y Calendario</h3>
+                <p className="text-xs text-slate-500">Define cuándo una entrega se considera atrasada</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition-colors p-1 hover:bg-slate-200 rounded-full"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-medium text-slate-600 mb-1">Días de tolerancia</label>
+                    <input
+                        type="number"
+                        min={0}
+                        className="w-full text-sm border border-slate-300 rounded-md px-2 py-1.5"
+                        value={draft.graceDays}
+                        onChange={(e) => setDraft({ ...draft, graceDays: parseInt(e.target.value, 10) || 0 })}
+                    />
+                    <p className="text-xs text-slate-500 mt-1">Un atraso de hasta N días se considera a tiempo.</p>
+                </div>
+                <div className="space-y-2 pt-6">
+                    <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            className="rounded text-blue-600 focus:ring-blue-500"
+                            checked={draft.useBusinessDays}
+                            onChange={(e) => setDraft({ ...draft, useBusinessDays: e.target.checked })}
+                        />
+                        Contar en días hábiles
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            className="rounded text-blue-600 focus:ring-blue-500"
+                            checked={draft.includeHolyWeek}
+                            onChange={(e) => setDraft({ ...draft, includeHolyWeek: e.target.checked })}
+                        />
+                        Incluir Jueves y Viernes Santo
+                    </label>
+                </div>
+            </div>
+
+            <div className={draft.useBusinessDays ? '' : 'opacity-50'}>
+                <h4 className="font-semibold text-slate-800 text-sm mb-2">Feriados</h4>
+                <div className="border border-slate-200 rounded max-h-56 overflow-y-auto">
+                    <table className="w-full text-sm text-left">
+                        <tbody className="divide-y divide-slate-100">
+                            {draft.holidays.map(holiday => (
+                                <tr key={holiday.date}>
+                                    <td className="px-3 py-1.5 font-mono text-xs">{holiday.date}</td>
+                                    <td className="px-3 py-1.5">{holiday.name}</td>
+                                    <td className="px-3 py-1.5 text-right">
+                                        <button
+                                            onClick={() => handleRemove(holiday.date)}
+                                            className="text-slate-400 hover:text-red-600 p-1"
+                                            title="Eliminar"
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="flex items-end gap-2 mt-3">
+                    <div className="w-36">
+                        <label className="block text-xs font-medium text-slate-600 mb-1">Fecha</label>
+                        <input
+                            type="text"
+                            className="w-full text-sm border border-slate-300 rounded-md px-2 py-1.5 font-mono"
+                            placeholder="MM-DD o AAAA-MM-DD"
+                            value={newDate}
+                            onChange={(e) => setNewDate(e.target.value)}
+                        />
+                    </div>
+                    <div className="flex-1">
+                        <label className="block text-xs font-medium text-slate-600 mb-1">Descripción</label>
+                        <input
+                            type="text"
+                            className="w-full text-sm border border-slate-300 rounded-md px-2 py-1.5"
+                            value={newName}
+                            onChange={(e) => setNewName(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+                        />
+                    </div>
+                    <button
+                        onClick={handleAdd}
+                        disabled={!canAdd}
+                        className={`flex items-center gap-1 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                            canAdd ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-slate-200 text-slate-400 cursor-not-allowed'
+                        }`}
+                    >
+                        <Plus size={16} /> Agregar
+                    </button>
+                </div>
+                <p className="text-xs text-slate-500 mt-1">Use MM-DD para feriados de todos los años y AAAA-MM-DD para fechas puntuales.</p>
+            </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-200 flex justify-between items-center">
+            <button
+                onClick={() => setDraft(DEFAULT_CALENDAR_SETTINGS)}
+                className="flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700"
+            >
+                <RotateCcw size={14} /> Restaurar predeterminados
+            </button>
+            <div className="flex gap-2">
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800"
+                >
+                    Cancelar
+                </button>
+                <button
+                    onClick={handleSave}
+                    className="px-4 py-2 bg-slate-800 text-white text-sm font-medium rounded-lg hover:bg-slate-700 transition-colors"
+                >
+                    Guardar
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarSettingsModal;
@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { ClaimCategory, ClaimCondition, ClaimConditionField, ClaimConditionOperator } from '../types';
+import { X, AlertCircle, Plus, Trash2, RotateCcw } from 'lucide-react';
+import { DEFAULT_CLAIM_CATEGORIES, CLAIM_FIELD_LABELS, CLAIM_OPERATOR_LABELS, validateRegex } from '../utils/claimRules';
+
+interface ClaimRulesModalProps {
+  categories: ClaimCategory[];
+  customFields: string[]; // Additional filter columns available as customValues
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (categories: ClaimCategory[]) => void;
+}
+
+const NEW_CONDITION: ClaimCondition = { field: 'otType', operator: 'contains', value: '' };
+
+const ClaimRulesModal: React.FC<ClaimRulesModalProps> = ({ categories, customFields, isOpen, onClose, onSave }) => {
+  const [draft, setDraft] = useState<ClaimCategory[]>(categories);
+
+  // Reset the draft every time the panel is opened
+  useEffect(() => {
+    if (isOpen) setDraft(categories);
+  }, [isOpen, categories]);
+
+  if (!isOpen) return null;
+
+  const updateCategory = (id: string, changes: Partial<ClaimCategory>) => {
+    setDraft(draft.map(c => (c.id === id ? { ...c, ...changes } : c)));
+  };
+
+  const updateCondition = (category: ClaimCategory, index: number, changes: Partial<ClaimCondition>) => {
+    const conditions = category.conditions.map((cond, i) => (i === index ? { ...cond, ...changes } : cond));
+    updateCategory(category.id, { conditions });
+  };
+
+  const addCategory = () => {
+    setDraft([...draft, {
+      id: `cat-${Date.now()}`,
+      name: `Categoría ${draft.length + 1}`,
+      combinator: 'AND',
+      conditions: [{ ...NEW_CONDITION }]
+    }]);
+  };
+
+  const conditionError = (cond: ClaimCondition): string | null => {
+    if (!cond.value.trim()) return 'Valor requerido';
+    if (cond.field === 'custom' && !cond.customField) return 'Selecciona el campo';
+    if (cond.operator === 'regex') return validateRegex(cond.value);
+    return null;
+  };
+
+  const hasErrors = draft.some(cat => !cat.name.trim() || cat.conditions.length === 0 || cat.conditions.some(c => conditionError(c) !== null));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl overflow-hidden m-4 border border-slate-200">
+
+        {/* Header */}
+        <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <div className="p-2 bg-orange-100 text-orange-600 rounded-lg">
+                <AlertCircle size={20} />
+            </div>
+            <div>
+                <h3 className="text-lg font-bold text-slate-800">Reglas de Reclamos</h3>
+                <p className="text-xs text-slate-500">Cada registro se asigna a la primera categoría cuyas condiciones cumple</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition-colors p-1 hover:bg-slate-200 rounded-full"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+            {draft.map(category => (
+                <div key={category.id} className="border border-slate-200 rounded-lg p-4 space-y-3">
+                    <div className="flex items-center gap-3">
+                        <input
+                            type="text"
+                            className="flex-1 text-sm font-semibold border border-slate-300 rounded-md px-2 py-1.5"
+                            value={category.name}
+                            onChange={(e) => updateCategory(category.id, { name: e.target.value })}
+                        />
+                        <select
+                            className="text-sm border border-slate-300 rounded-md px-2 py-1.5"
+                            value={category.combinator}
+                            onChange={(e) => updateCategory(category.id, { combinator: e.target.value as 'AND' | 'OR' })}
+                        >
+                            <option value="AND">Cumple todas (Y)</option>
+                            <option value="OR">Cumple alguna (O)</option>
+                        </select>
+                        <button
+                            onClick={() => setDraft(draft.filter(c => c.id !== category.id))}
+                            className="text-slate-400 hover:text-red-600 p-1"
+                            title="Eliminar categoría"
+                        >
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+
+                    {category.conditions.map((cond, idx) => {
+                        const error = conditionError(cond);
+                        return (
+                            <div key={idx} className="flex flex-wrap items-center gap-2 pl-3 border-l-2 border-orange-200">
+                                <select
+                                    className="text-xs border border-slate-300 rounded-md px-2 py-1"
+                                    value={cond.field}
+                                    onChange={(e) => updateCondition(category, idx, { field: e.target.value as ClaimConditionField })}
+                                >
+                                    {(Object.keys(CLAIM_FIELD_LABELS) as ClaimConditionField[])
+                                        .filter(f => f !== 'custom' || customFields.length > 0)
+                                        .map(f => <option key={f} value={f}>{CLAIM_FIELD_LABELS[f]}</option>)}
+                                </select>
+                                {cond.field === 'custom' && (
+                                    <select
+                                        className="text-xs border border-slate-300 rounded-md px-2 py-1"
+                                        value={cond.customField || ''}
+                                        onChange={(e) => updateCondition(category, idx, { customField: e.target.value })}
+                                    >
+                                        <option value="">Campo...</option>
+                                        {customFields.map(f => <option key={f} value={f}>{f}</option>)}
+                                    </select>
+                                )}
+                                <select
+                                    className="text-xs border border-slate-300 rounded-md px-2 py-1"
+                                    value={cond.operator}
+                                    onChange={(e) => updateCondition(category, idx, { operator: e.target.value as ClaimConditionOperator })}
+                                >
+                                    {(Object.keys(CLAIM_OPERATOR_LABELS) as ClaimConditionOperator[]).map(op => (
+                                        <option key={op} value={op}>{CLAIM_OPERATOR_LABELS[op]}</option>
+                                    ))}
+                                </select>
+                                <input
+                                    type="text"
+                                    className={`flex-1 min-w-[120px] text-xs border rounded-md px-2 py-1 font-mono ${error ? 'border-red-400 bg-red-50' : 'border-slate-300'}`}
+                                    value={cond.value}
+                                    onChange={(e) => updateCondition(category, idx, { value: e.target.value })}
+                                    title={error || undefined}
+                                />
+                                <button
+                                    onClick={() => updateCategory(category.id, { conditions: category.conditions.filter((_, i) => i !== idx) })}
+                                    className="text-slate-400 hover:text-red-600 p-1"
+                                    title="Quitar condición"
+                                >
+                                    <X size={14} />
+                                </button>
+                                {error && <span className="w-full text-xs text-red-500">{error}</span>}
+                            </div>
+                        );
+                    })}
+
+                    <button
+                        onClick={() => updateCategory(category.id, { conditions: [...category.conditions, { ...NEW_CONDITION }] })}
+                        className="flex items-center gap-1 text-xs font-medium text-orange-600 hover:text-orange-800"
+                    >
+                        <Plus size={14} /> Agregar condición
+                    </button>
+                </div>
+            ))}
+
+            <button
+                onClick={addCategory}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-orange-700 bg-orange-50 hover:bg-orange-100 border border-orange-200 rounded-md transition-colors"
+            >
+                <Plus size={16} /> Nueva categoría
+            </button>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-200 flex justify-between items-center">
+            <button
+                onClick={() => setDraft(DEFAULT_CLAIM_CATEGORIES)}
+                className="flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700"
+            >
+                <RotateCcw size={14} /> Restaurar predeterminados
+            </button>
+            <div className="flex gap-2 items-center">
+                {hasErrors && <span className="text-xs text-red-500">Revisa las condiciones marcadas</span>}
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800"
+                >
+                    Cancelar
+                </button>
+                <button
+                    onClick={() => { onSave(draft); onClose(); }}
+                    disabled={hasErrors}
+                    className="px-4 py-2 bg-slate-800 text-white text-sm font-medium rounded-lg hover:bg-slate-700 transition-colors disabled:opacity-50"
+                >
+                    Guardar
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClaimRulesModal;
@@ -1,49 +1,154 @@
-import React, { useState, useEffect } from 'react';
-import { ColumnMapping } from '../types';
-import { ArrowRight, Check, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ColumnMapping, MappingProfile, NumberFormat, DateFormat, MappingSample, InternalClient } from '../types';
+import { ArrowRight, Check, AlertCircle, AlertTriangle, Save, Upload, Download, Trash2, Bookmark, Eye } from 'lucide-react';
+import {
+  loadMappingProfiles, saveMappingProfiles, findProfileForHeaders, upsertProfile,
+  adaptMappingToHeaders, getHeaderFingerprint, exportProfilesToJson, parseProfilesJson
+} from '../utils/mappingProfiles';
+import { CURRENCIES, NUMBER_FORMAT_LABELS, BASE_CURRENCY } from '../utils/currency';
+import { DATE_FORMAT_LABELS } from '../utils/dateParsing';
+import { buildFieldPreviews, describePreviewWarning, describeDateFormatWarning, formatShare } from '../utils/mappingPreview';
 
 interface ColumnMapperProps {
-  headers: string[];
+  sample: MappingSample;
+  internalClients: InternalClient[];
   onConfirm: (mapping: ColumnMapping) => void;
   onCancel: () => void;
 }
 
-const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, onConfirm, onCancel }) => {
-  const [mapping, setMapping] = useState<ColumnMapping>({
-    otNumber: '',
-    folio: '',
-    clientCode: '',
-    workshop: '',
-    promisedDate: '',
-    secondPromisedDate: '',
-    realDeliveryDate: '',
-    billingDate: '',
-    amount: '',
-    otType: '',
-    additionalFilters: []
+const EMPTY_MAPPING: ColumnMapping = {
+  otNumber: '',
+  folio: '',
+  clientCode: '',
+  workshop: '',
+  promisedDate: '',
+  secondPromisedDate: '',
+  realDeliveryDate: '',
+  billingDate: '',
+  amount: '',
+  numberFormat: 'auto',
+  amountCurrency: BASE_CURRENCY,
+  currencyColumn: '',
+  dateFormats: {},
+  otType: '',
+  additionalFilters: []
+};
+
+// "Total USD" / "Total Gs" style headers tell the currency of the amount column
+const currencyFromHeader = (header: string): string | null => {
+  const lower = header.toLowerCase();
+  if (/\busd\b|us\$|d[oó]lar/.test(lower)) return 'USD';
+  if (/\bgs\b|guaran|pyg/.test(lower)) return 'PYG';
+  return null;
+};
+
+// Auto-detect columns based on common names
+const guessMapping = (headers: string[]): ColumnMapping => {
+  const newMapping = { ...EMPTY_MAPPING, additionalFilters: [] };
+  headers.forEach(h => {
+    const lower = h.toLowerCase();
+    if (lower.includes('número de ot') || lower.includes('numero de ot')) newMapping.otNumber = h;
+    else if (lower.includes('folio') || lower.includes('nrofolio')) newMapping.folio = h;
+    else if (lower.includes('código de cliente') || lower.includes('cliente/proveedor')) newMapping.clientCode = h;
+    else if (lower.includes('taller') || lower.includes('nombre_taller')) newMapping.workshop = h;
+    // Date detection
+    else if (lower.includes('2da') || lower.includes('segunda') || lower.includes('reprogramada') || lower.includes('nueva fecha')) newMapping.secondPromisedDate = h;
+    else if (lower.includes('fecha estimada') || lower.includes('prometida')) newMapping.promisedDate = h;
+    else if (lower.includes('entrega real')) newMapping.realDeliveryDate = h;
+    else if (lower.includes('contabilización') || lower.includes('factura') || lower.includes('facturación')) newMapping.billingDate = h;
+    
+    // Guaraní totals win over USD ones; a USD column is only used when nothing else matches
+    else if (lower.includes('total gs') || lower.includes('importe')) {
+      newMapping.amount = h;
+      newMapping.amountCurrency = currencyFromHeader(h) || BASE_CURRENCY;
+    }
+    else if (lower.includes('total usd')) {
+      if (!newMapping.amount) {
+        newMapping.amount = h;
+        newMapping.amountCurrency = 'USD';
+      }
+    }
+    else if (lower === 'moneda' || lower.includes('moneda')) newMapping.currencyColumn = h;
+    else if (lower.includes('tipoot') || lower.includes('tipo ot') || lower.includes('tipo de ot')) newMapping.otType = h;
   });
+  return newMapping;
+};
+
+const ColumnMapper: React.FC<ColumnMapperProps> = ({ sample, internalClients, onConfirm, onCancel }) => {
+  const { headers } = sample;
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [confirmingWarnings, setConfirmingWarnings] = useState(false);
+
+  // Saved profiles
+  const [profiles, setProfiles] = useState<MappingProfile[]>(loadMappingProfiles);
+  const [appliedProfile, setAppliedProfile] = useState<string | null>(null);
+  const [profileName, setProfileName] = useState<string>('');
+  const [profileMessage, setProfileMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  // Auto-detect columns based on common names
+  // Re-apply a saved profile when the headers match one, otherwise guess from names
   useEffect(() => {
-    const newMapping = { ...mapping };
-    headers.forEach(h => {
-      const lower = h.toLowerCase();
-      if (lower.includes('número de ot') || lower.includes('numero de ot')) newMapping.otNumber = h;
-      else if (lower.includes('folio') || lower.includes('nrofolio')) newMapping.folio = h;
-      else if (lower.includes('código de cliente') || lower.includes('cliente/proveedor')) newMapping.clientCode = h;
-      else if (lower.includes('taller') || lower.includes('nombre_taller')) newMapping.workshop = h;
-      // Date detection
-      else if (lower.includes('2da') || lower.includes('segunda') || lower.includes('reprogramada') || lower.includes('nueva fecha')) newMapping.secondPromisedDate = h;
-      else if (lower.includes('fecha estimada') || lower.includes('prometida')) newMapping.promisedDate = h;
-      else if (lower.includes('entrega real')) newMapping.realDeliveryDate = h;
-      else if (lower.includes('contabilización') || lower.includes('factura') || lower.includes('facturación')) newMapping.billingDate = h;
-      
-      else if (lower.includes('total gs') || lower.includes('total usd') || lower.includes('importe')) newMapping.amount = h;
-      else if (lower.includes('tipoot') || lower.includes('tipo ot') || lower.includes('tipo de ot')) newMapping.otType = h;
-    });
-    setMapping(newMapping);
+    const match = findProfileForHeaders(profiles, headers);
+    if (match) {
+      setMapping(adaptMappingToHeaders(match.mapping, headers));
+      setAppliedProfile(match.name);
+      setProfileName(match.name);
+    } else {
+      setMapping(guessMapping(headers));
+      setAppliedProfile(null);
+    }
+    setProfileMessage(null);
   }, [headers]);
 
+  const updateProfiles = (next: MappingProfile[]) => {
+    setProfiles(next);
+    saveMappingProfiles(next);
+  };
+
+  const handleSaveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    updateProfiles(upsertProfile(profiles, {
+      name,
+      fingerprint: getHeaderFingerprint(headers),
+      headers,
+      mapping,
+      updatedAt: new Date().toISOString()
+    }));
+    setAppliedProfile(name);
+    setProfileMessage(`Perfil "${name}" guardado.`);
+  };
+
+  const handleApplyProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+    if (!profile) return;
+    setMapping(adaptMappingToHeaders(profile.mapping, headers));
+    setAppliedProfile(profile.name);
+    setProfileName(profile.name);
+    setProfileMessage(null);
+  };
+
+  const handleDeleteProfile = () => {
+    if (!appliedProfile) return;
+    updateProfiles(profiles.filter(p => p.name !== appliedProfile));
+    setProfileMessage(`Perfil "${appliedProfile}" eliminado.`);
+    setAppliedProfile(null);
+  };
+
+  const handleImportProfiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseProfilesJson(await file.text());
+      updateProfiles(imported.reduce(upsertProfile, profiles));
+      setProfileMessage(`${imported.length} perfil(es) importado(s).`);
+    } catch (err) {
+      console.error(err);
+      setProfileMessage('No se pudo importar el archivo. Verifica que sea un JSON de perfiles válido.');
+    }
+  };
+
   const handleFilterToggle = (header: string) => {
     setMapping(prev => {
       const exists = prev.additionalFilters.includes(header);
@@ -56,8 +161,57 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, onConfirm, onCance
     });
   };
 
+  // Live read of the sample rows with the current mapping
+  const previews = useMemo(() => buildFieldPreviews(mapping, sample, internalClients), [mapping, sample, internalClients]);
+  const warnings = previews.map(describePreviewWarning).filter((w): w is string => w !== null);
+
+  // Day/month order for a mapped date column, with the ambiguity found in the sample
+  const renderDateFormat = (column?: string) => {
+    if (!column) return null;
+    const preview = previews.find(p => p.column === column && p.dateFormat);
+    const dateWarning = preview ? describeDateFormatWarning(preview) : null;
+    return (
+      <div className="mt-1">
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-slate-500">Formato:</span>
+          <select
+            className="text-xs border-slate-300 rounded-md py-0.5"
+            value={mapping.dateFormats?.[column] || 'auto'}
+            onChange={(e) => setMapping({
+              ...mapping,
+              dateFormats: { ...mapping.dateFormats, [column]: e.target.value as DateFormat }
+            })}
+          >
+            {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map(f => (
+              <option key={f} value={f}>{DATE_FORMAT_LABELS[f]}</option>
+            ))}
+          </select>
+        </div>
+        {dateWarning && (
+          <p className="mt-1 text-xs text-orange-700 flex items-start gap-1">
+            <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" />
+            <span>{dateWarning}; elige el formato si no es el correcto.</span>
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  // Any change to the mapping asks for confirmation again
+  useEffect(() => {
+    setConfirmingWarnings(false);
+  }, [mapping]);
+
   const isValid = mapping.otNumber && mapping.clientCode && mapping.workshop && mapping.promisedDate && mapping.realDeliveryDate;
 
+  const handleConfirm = () => {
+    if (warnings.length > 0 && !confirmingWarnings) {
+      setConfirmingWarnings(true);
+      return;
+    }
+    onConfirm(mapping);
+  };
+
   return (
     <div className="max-w-5xl mx-auto mt-8 animate-fade-in pb-12">
       <div className="bg-white rounded-xl shadow-lg border border-slate-100 overflow-hidden">
@@ -68,6 +222,73 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, onConfirm, onCance
           </p>
         </div>
 
+        {/* Mapping Profiles */}
+        <div className="px-6 py-4 border-b border-slate-100 flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+            <Bookmark size={16} className="text-blue-600" /> Perfil:
+          </div>
+          <select
+            className="text-sm border border-slate-300 rounded-md shadow-sm py-1.5 px-2"
+            value={appliedProfile || ''}
+            onChange={(e) => handleApplyProfile(e.target.value)}
+          >
+            <option value="">{profiles.length > 0 ? 'Aplicar perfil guardado...' : 'Sin perfiles guardados'}</option>
+            {profiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+          </select>
+          <input
+            type="text"
+            className="text-sm border border-slate-300 rounded-md py-1.5 px-2"
+            placeholder="Nombre del perfil"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+          />
+          <button
+            onClick={handleSaveProfile}
+            disabled={!profileName.trim()}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 border border-blue-200 rounded-md transition-colors disabled:opacity-50"
+          >
+            <Save size={14} /> Guardar
+          </button>
+          {appliedProfile && (
+            <button
+              onClick={handleDeleteProfile}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 hover:text-red-600 border border-slate-200 rounded-md transition-colors"
+            >
+              <Trash2 size={14} /> Eliminar
+            </button>
+          )}
+          <div className="flex items-center gap-2 ml-auto">
+            <button
+              onClick={() => exportProfilesToJson(profiles)}
+              disabled={profiles.length === 0}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-md transition-colors disabled:opacity-50"
+            >
+              <Download size={14} /> Exportar
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-md transition-colors"
+            >
+              <Upload size={14} /> Importar
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleImportProfiles}
+            />
+          </div>
+          {(appliedProfile || profileMessage) && (
+            <div className="w-full text-xs text-slate-500 flex items-center gap-1">
+              {appliedProfile && !profileMessage && (
+                <><Check size={14} className="text-green-600" /> Se aplicó el perfil <strong>{appliedProfile}</strong> para estas columnas.</>
+              )}
+              {profileMessage}
+            </div>
+          )}
+        </div>
+
         <div className="p-6 grid grid-cols-1 md:grid-cols-3 gap-8">
           {/* Required Fields */}
           <div className="space-y-4">
@@ -133,17 +354,62 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, onConfirm, onCance
             </h3>
 
              <div>
-              <label className="block text-sm font-medium text-slate-600 mb-1">Total / Importe (usar colum. GS)</label>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Total / Importe</label>
               <select 
                 className="w-full border-slate-300 rounded-md shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
                 value={mapping.amount}
-                onChange={(e) => setMapping({...mapping, amount: e.target.value})}
+                onChange={(e) => setMapping({
+                  ...mapping,
+                  amount: e.target.value,
+                  amountCurrency: currencyFromHeader(e.target.value) || mapping.amountCurrency
+                })}
               >
                 <option value="">Seleccionar columna (Opcional)</option>
                 {headers.map(h => <option key={h} value={h}>{h}</option>)}
               </select>
             </div>
 
+            {mapping.amount && (
+              <div className="bg-slate-50 p-2 rounded-lg border border-slate-200 space-y-2">
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Formato numérico</label>
+                  <select
+                    className="w-full border-slate-300 rounded-md shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+                    value={mapping.numberFormat || 'auto'}
+                    onChange={(e) => setMapping({...mapping, numberFormat: e.target.value as NumberFormat})}
+                  >
+                    {(Object.keys(NUMBER_FORMAT_LABELS) as NumberFormat[]).map(f => (
+                      <option key={f} value={f}>{NUMBER_FORMAT_LABELS[f]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Moneda</label>
+                    <select
+                      className="w-full border-slate-300 rounded-md shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+                      value={mapping.amountCurrency || BASE_CURRENCY}
+                      onChange={(e) => setMapping({...mapping, amountCurrency: e.target.value})}
+                    >
+                      {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Columna Moneda</label>
+                    <select
+                      className="w-full border-slate-300 rounded-md shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+                      value={mapping.currencyColumn || ''}
+                      onChange={(e) => setMapping({...mapping, currencyColumn: e.target.value})}
+                    >
+                      <option value="">Sin columna</option>
+                      {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                    </select>
+                  </div>
+                </div>
+                <p className="text-xs text-slate-500">Si hay columna de moneda, la moneda elegida se usa solo para las filas vacías.</p>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-slate-600 mb-1">Tipo OT (Para Reclamos)</label>
               <select 
@@ -174,6 +440,7 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, onConfirm, onCance
                 <option value="">Seleccionar columna...</option>
                 {headers.map(h => <option key={h} value={h}>{h}</option>)}
               </select>
+              {renderDateFormat(mapping.promisedDate)}
             </div>
 
             <div className="bg-slate-50 p-2 rounded-lg border border-slate-200">
@@ -187,6 +454,7 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, onConfirm, onCance
                 <option value="">Sin segunda fecha...</option>
                 {headers.map(h => <option key={h} value={h}>{h}</option>)}
               </select>
+              {renderDateFormat(mapping.secondPromisedDate)}
             </div>
 
             <div>
@@ -199,6 +467,7 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, onConfirm, onCance
                 <option value="">Seleccionar columna...</option>
                 {headers.map(h => <option key={h} value={h}>{h}</option>)}
               </select>
+              {renderDateFormat(mapping.realDeliveryDate)}
             </div>
 
             <div>
@@ -211,10 +480,66 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, onConfirm, onCance
                 <option value="">Seleccionar columna...</option>
                 {headers.map(h => <option key={h} value={h}>{h}</option>)}
               </select>
+              {renderDateFormat(mapping.billingDate)}
             </div>
           </div>
         </div>
 
+        {/* Live Preview */}
+        {previews.length > 0 && (
+          <div className="p-6 border-t border-slate-100">
+            <h3 className="font-semibold text-slate-700 flex items-center gap-2 mb-1">
+              <Eye size={16} className="text-blue-600" /> Vista Previa
+            </h3>
+            <p className="text-xs text-slate-500 mb-3">
+              Así se leerán los campos asignados, según las primeras {sample.rows.length.toLocaleString('es-PY')} de {sample.totalRows.toLocaleString('es-PY')} filas.
+              {sample.subtotalRows > 0 && ` Se omiten ${sample.subtotalRows.toLocaleString('es-PY')} filas de Total o Subtotal.`}
+            </p>
+            <div className="border border-slate-200 rounded-lg overflow-x-auto">
+              <table className="w-full text-xs text-left">
+                <thead className="bg-slate-50 text-slate-600">
+                  <tr>
+                    <th className="px-3 py-2">Campo</th>
+                    <th className="px-3 py-2">Ejemplos (valor → interpretado)</th>
+                    <th className="px-3 py-2 text-right">Vacíos</th>
+                    <th className="px-3 py-2 text-right">No interpretables</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {previews.map(preview => {
+                    const warning = describePreviewWarning(preview);
+                    return (
+                      <tr key={preview.field} className={warning ? 'bg-amber-50/50' : ''}>
+                        <td className="px-3 py-2 align-top">
+                          <span className="block font-medium text-slate-700">{preview.label}</span>
+                          <span className="text-slate-400">{preview.column}</span>
+                        </td>
+                        <td className="px-3 py-2 align-top">
+                          <div className="flex flex-wrap gap-1">
+                            {preview.examples.length === 0 && <span className="text-slate-400 italic">Sin valores</span>}
+                            {preview.examples.map((example, index) => (
+                              <span
+                                key={index}
+                                className={`px-1.5 py-0.5 rounded border ${example.ok ? 'bg-white border-slate-200 text-slate-600' : 'bg-red-50 border-red-200 text-red-700'}`}
+                              >
+                                <span className="font-mono">{example.raw}</span> → <strong>{example.parsed}</strong>
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="px-3 py-2 text-right align-top font-mono">{formatShare(preview.empty, preview.total)}</td>
+                        <td className={`px-3 py-2 text-right align-top font-mono ${preview.invalid > 0 ? 'text-red-600 font-semibold' : ''}`}>
+                          {formatShare(preview.invalid, preview.total)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Dynamic Filters Section */}
         <div className="p-6 border-t border-slate-100 bg-slate-50">
             <h3 className="font-semibold text-slate-700 mb-3">Filtros Adicionales</h3>
@@ -234,6 +559,17 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, onConfirm, onCance
             </div>
         </div>
 
+        {confirmingWarnings && (
+          <div className="mx-6 mt-6 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+            <p className="font-medium flex items-center gap-2">
+              <AlertTriangle size={16} /> Revisa la asignación antes de procesar:
+            </p>
+            <ul className="list-disc ml-6 mt-1 text-xs">
+              {warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+          </div>
+        )}
+
         <div className="p-6 border-t border-slate-100 flex justify-between items-center">
            <button
             onClick={onCancel}
@@ -249,7 +585,7 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, onConfirm, onCance
               </span>
             )}
             <button
-              onClick={() => onConfirm(mapping)}
+              onClick={handleConfirm}
               disabled={!isValid}
               className={`flex items-center gap-2 px-6 py-2.5 rounded-lg text-white font-medium transition-all ${
                 isValid 
@@ -257,7 +593,7 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, onConfirm, onCance
                   : 'bg-slate-300 cursor-not-allowed'
               }`}
             >
-              Procesar Datos
+              {confirmingWarnings ? 'Procesar de todos modos' : 'Procesar Datos'}
               <ArrowRight size={18} />
             </button>
           </div>
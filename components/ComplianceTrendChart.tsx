@@ -0,0 +1,120 @@
+import React, { useState, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ParsedOT, PeriodDateField } from '../types';
+import { calculateMonthlyTrend } from '../utils/excelHelpers';
+import { PERIOD_DATE_FIELD_LABELS } from '../utils/periods';
+import { TrendingUp } from 'lucide-react';
+
+interface ComplianceTrendChartProps {
+  ots: ParsedOT[]; // Already classified (see applyStatus)
+}
+
+const LINE_COLORS = [
+  '#2563eb', '#16a34a', '#dc2626', '#9333ea', '#ea580c',
+  '#0891b2', '#ca8a04', '#db2777', '#4f46e5', '#65a30d'
+];
+
+const GLOBAL_KEY = 'Global';
+
+const ComplianceTrendChart: React.FC<ComplianceTrendChartProps> = ({ ots }) => {
+  const [dateField, setDateField] = useState<PeriodDateField>('billing');
+  const [hiddenWorkshops, setHiddenWorkshops] = useState<string[]>([]);
+
+  const trend = useMemo(() => calculateMonthlyTrend(ots, dateField), [ots, dateField]);
+
+  const workshopNames = useMemo(() => {
+    const names = new Set<string>();
+    trend.forEach(point => point.stats.workshops.forEach(w => names.add(w.name)));
+    return Array.from(names).sort();
+  }, [trend]);
+
+  // One row per month, one column per workshop holding its compliance rate
+  const chartData = useMemo(() => trend.map(point => {
+    const row: Record<string, string | number> = { label: point.label, [GLOBAL_KEY]: point.stats.averageCompliance };
+    point.stats.workshops.forEach(w => { row[w.name] = w.complianceRate; });
+    return row;
+  }), [trend]);
+
+  const toggleWorkshop = (name: string) => {
+    setHiddenWorkshops(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
+
+  const series = [GLOBAL_KEY, ...workshopNames];
+  const colorFor = (name: string) => name === GLOBAL_KEY
+    ? '#0f172a'
+    : LINE_COLORS[(series.indexOf(name) - 1) % LINE_COLORS.length];
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+          <TrendingUp size={20} className="text-blue-600" /> Tendencia Mensual de Cumplimiento
+        </h3>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-slate-600">Agrupar por:</label>
+          <select
+            className="form-select text-sm border-slate-300 rounded-md shadow-sm bg-white py-1.5 px-3 border"
+            value={dateField}
+            onChange={(e) => setDateField(e.target.value as PeriodDateField)}
+          >
+            {(Object.keys(PERIOD_DATE_FIELD_LABELS) as PeriodDateField[]).map(field => (
+              <option key={field} value={field}>{PERIOD_DATE_FIELD_LABELS[field]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {trend.length === 0 ? (
+        <p className="text-sm text-slate-500 italic py-8 text-center">No hay OTs con esta fecha para construir la tendencia.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {series.map(name => {
+              const hidden = hiddenWorkshops.includes(name);
+              return (
+                <button
+                  key={name}
+                  onClick={() => toggleWorkshop(name)}
+                  className={`flex items-center gap-1.5 px-2 py-1 text-xs rounded-full border transition-colors ${
+                    hidden ? 'border-slate-200 text-slate-400 bg-white' : 'border-slate-300 text-slate-700 bg-slate-50'
+                  }`}
+                >
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: hidden ? '#cbd5e1' : colorFor(name) }}></span>
+                  {name}
+                </button>
+              );
+            })}
+          </div>
+          <div className="h-80 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 12}} />
+                <YAxis domain={[0, 100]} unit="%" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 12}} />
+                <Tooltip formatter={(value) => `${value}%`} />
+                <Legend />
+                {series.filter(name => !hiddenWorkshops.includes(name)).map(name => {
+                  const isGlobal = name === GLOBAL_KEY;
+                  return (
+                    <Line
+                      key={name}
+                      type="monotone"
+                      dataKey={name}
+                      stroke={colorFor(name)}
+                      strokeWidth={isGlobal ? 3 : 2}
+                      strokeDasharray={isGlobal ? '6 3' : undefined}
+                      dot={{ r: 3 }}
+                      connectNulls
+                    />
+                  );
+                })}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComplianceTrendChart;
@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useRef } from 'react';
+import * as XLSX from 'xlsx';
+import { CurrencySettings } from '../types';
+import { X, Coins, Plus, Trash2, RotateCcw, Upload } from 'lucide-react';
+import { DEFAULT_CURRENCY_SETTINGS, CURRENCIES, BASE_CURRENCY, parseRatesWorkbook, mergeRates } from '../utils/currency';
+
+interface CurrencySettingsModalProps {
+  settings: CurrencySettings;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (settings: CurrencySettings) => void;
+}
+
+const CurrencySettingsModal: React.FC<CurrencySettingsModalProps> = ({ settings, isOpen, onClose, onSave }) => {
+  const [draft, setDraft] = useState<CurrencySettings>(settings);
+  const [newMonth, setNewMonth] = useState('');
+  const [newCurrency, setNewCurrency] = useState('USD');
+  const [newRate, setNewRate] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+
+  // Reset the draft every time the panel is opened
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(settings);
+      setNewMonth('');
+      setNewRate('');
+      setMessage(null);
+    }
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const rateValue = parseFloat(newRate.replace(',', '.'));
+  const canAdd = /^\d{4}-\d{2}$/.test(newMonth) && newCurrency !== BASE_CURRENCY && rateValue > 0;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    setDraft({ ...draft, rates: mergeRates(draft.rates, [{ month: newMonth, currency: newCurrency, rate: rateValue }]) });
+    setNewRate('');
+  };
+
+  const handleRemove = (month: string, currency: string) => {
+    setDraft({ ...draft, rates: draft.rates.filter(r => r.month !== month || r.currency !== currency) });
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const workbook = XLSX.read(await file.arrayBuffer(), { cellDates: true });
+      const imported = parseRatesWorkbook(workbook);
+      setDraft({ ...draft, rates: mergeRates(draft.rates, imported) });
+      setMessage(`${imported.length} cotización(es) importada(s).`);
+    } catch (err) {
+      console.error(err);
+      setMessage(err instanceof Error ? err.message : 'No se pudo leer el archivo de cotizaciones.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl overflow-hidden m-4 border border-slate-200">
+
+        {/* Header */}
+        <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <div className="p-2 bg-green-100 text-green-600 rounded-lg">
+                <Coins size={20} />
+            </div>
+            <div>
+                <h3 className="text-lg font-bold text-slate-800">Moneda y Cotizaciones</h3>
+                <p className="text-xs text-slate-500">Los importes se muestran convertidos a la moneda de reporte</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition-colors p-1 hover:bg-slate-200 rounded-full"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+            <div>
+                <label className="block text-sm font-medium text-slate-600 mb-1">Moneda de reporte</label>
+                <select
+                    className="w-40 text-sm border border-slate-300 rounded-md px-2 py-1.5"
+                    value={draft.reportingCurrency}
+                    onChange={(e) => setDraft({ ...draft, reportingCurrency: e.target.value })}
+                >
+                    {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+            </div>
+
+            <div>
+                <div className="flex justify-between items-center mb-2">
+                    <h4 className="font-semibold text-slate-800 text-sm">Cotizaciones mensuales (Gs por unidad)</h4>
+                    <button
+                        onClick={() => uploadInputRef.current?.click()}
+                        className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-slate-600 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-md transition-colors"
+                    >
+                        <Upload size={12} /> Importar Excel/CSV
+                    </button>
+                    <input
+                        ref={uploadInputRef}
+                        type="file"
+                        accept=".xlsx,.xls,.csv"
+                        className="hidden"
+                        onChange={handleUpload}
+                    />
+                </div>
+                {message && <p className="text-xs text-slate-500 mb-2">{message}</p>}
+                <div className="border border-slate-200 rounded max-h-56 overflow-y-auto">
+                    <table className="w-full text-sm text-left">
+                        <tbody className="divide-y divide-slate-100">
+                            {draft.rates.length === 0 && (
+                                <tr><td className="px-3 py-2 text-xs text-slate-500 italic">Sin cotizaciones cargadas.</td></tr>
+                            )}
+                            {draft.rates.map(rate => (
+                                <tr key={`${rate.month}|${rate.currency}`}>
+                                    <td className="px-3 py-1.5 font-mono text-xs">{rate.month}</td>
+                                    <td className="px-3 py-1.5">{rate.currency}</td>
+                                    <td className="px-3 py-1.5 text-right font-mono">{rate.rate.toLocaleString('es-PY')}</td>
+                                    <td className="px-3 py-1.5 text-right">
+                                        <button
+                                            onClick={() => handleRemove(rate.month, rate.currency)}
+                                            className="text-slate-400 hover:text-red-600 p-1"
+                                            title="Eliminar"
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="flex items-end gap-2 mt-3">
+                    <div>
+                        <label className="block text-xs font-medium text-slate-600 mb-1">Mes</label>
+                        <input
+                            type="month"
+                            className="text-sm border border-slate-300 rounded-md px-2 py-1.5"
+                            value={newMonth}
+                            onChange={(e) => setNewMonth(e.target.value)}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-600 mb-1">Moneda</label>
+                        <select
+                            className="text-sm border border-slate-300 rounded-md px-2 py-1.5"
+                            value={newCurrency}
+                            onChange={(e) => setNewCurrency(e.target.value)}
+                        >
+                            {CURRENCIES.filter(c => c !== BASE_CURRENCY).map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </div>
+                    <div className="flex-1">
+                        <label className="block text-xs font-medium text-slate-600 mb-1">Cotización</label>
+                        <input
+                            type="text"
+                            className="w-full text-sm border border-slate-300 rounded-md px-2 py-1.5 font-mono"
+                            placeholder="Ej: 7300"
+                            value={newRate}
+                            onChange={(e) => setNewRate(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+                        />
+                    </div>
+                    <button
+                        onClick={handleAdd}
+                        disabled={!canAdd}
+                        className={`flex items-center gap-1 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                            canAdd ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-slate-200 text-slate-400 cursor-not-allowed'
+                        }`}
+                    >
+                        <Plus size={16} /> Agregar
+                    </button>
+                </div>
+                <p className="text-xs text-slate-500 mt-1">
+                    Se usa la cotización del mes de facturación (o la del mes anterior más cercano). El archivo debe tener columnas Mes, Moneda y Cotización.
+                </p>
+            </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-200 flex justify-between items-center">
+            <button
+                onClick={() => setDraft(DEFAULT_CURRENCY_SETTINGS)}
+                className="flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700"
+            >
+                <RotateCcw size={14} /> Restaurar predeterminados
+            </button>
+            <div className="flex gap-2">
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800"
+                >
+                    Cancelar
+                </button>
+                <button
+                    onClick={() => { onSave(draft); onClose(); }}
+                    className="px-4 py-2 bg-slate-800 text-white text-sm font-medium rounded-lg hover:bg-slate-700 transition-colors"
+                >
+                    Guardar
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CurrencySettingsModal;
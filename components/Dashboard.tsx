@@ -1,13 +1,41 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import * as XLSX from 'xlsx';
 import { 
-  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, 
+  ResponsiveContainer, Legend, Tooltip,
   Cell, PieChart, Pie
 } from 'recharts';
-import { ParsedOT, WorkshopStats, ColumnMapping, ProcessingReport } from '../types';
-import { calculateStats } from '../utils/excelHelpers';
-import { CheckCircle, AlertTriangle, Clock, Activity, Filter, Calendar, Wrench, ListFilter, Users, ShieldAlert, DollarSign, AlertCircle, Box, CreditCard, LayoutList, Download, ArrowRight } from 'lucide-react';
+import { ParsedOT, ExcelRow, WorkshopStats, ColumnMapping, ProcessingReport, InternalClient, ComparisonMode, DashboardFilters, DashboardTab, DashboardView, PeriodDateField, PeriodPreset, OTStatus, StatusOptions, CalendarSettings, SlaSettings, ClaimCategory, CurrencySettings, AnalysisQuery, ClassifiedDataset, DashboardAnalysis } from '../types';
+import { calculateStats, getRowReference } from '../utils/excelHelpers';
+import { buildTableSheet, writeWorkbook } from '../utils/excelExport';
+import { buildManagementWorkbook, getOTExportColumns } from '../utils/managementReport';
+import { STATUS_LABELS } from '../utils/statusClassifier';
+import { describeCalendar } from '../utils/calendar';
+import { getDataQualityScore } from '../utils/dataQuality';
+import { DATE_FORMAT_LABELS } from '../utils/dateParsing';
+import { loadCurrencySettings, saveCurrencySettings, getMissingRateCurrencies, formatCurrency as formatAmount } from '../utils/currency';
+import { loadClaimCategories, saveClaimCategories, describeCategory } from '../utils/claimRules';
+import { loadSlaSettings, saveSlaSettings, getTargetFor, getSlaLevel, SLA_COLORS, SLA_LABELS } from '../utils/slaTargets';
+import { MONTH_NAMES, getComparisonRanges, formatRange, getPeriodDate, toInputDate, fromInputDate, PERIOD_DATE_FIELD_LABELS } from '../utils/periods';
+import { DEFAULT_VIEW, encodeViewHash, decodeViewHash, adaptViewToFields } from '../utils/dashboardViews';
+import { DEFAULT_FILTERS, PERIOD_PRESET_LABELS, EMPTY_VALUE_FILTER, resolveFilterRange, getFilterChips } from '../utils/dashboardFilters';
+import { pickRows } from '../utils/dashboardAnalysis';
+import { analyzeInWorker, isCancelled } from '../utils/processingClient';
+import { CheckCircle, AlertTriangle, Clock, Activity, Filter, Calendar, Wrench, ListFilter, Users, ShieldAlert, DollarSign, AlertCircle, Box, CreditCard, LayoutList, Download, ArrowRight, GitCompare, Target, Coins, FileSearch, X, FileSpreadsheet } from 'lucide-react';
 import AuditModal from './AuditModal';
+import DeltaBadge from './DeltaBadge';
+import WorkshopComparisonTable from './WorkshopComparisonTable';
+import ComplianceTrendChart from './ComplianceTrendChart';
+import DelayAnalysis from './DelayAnalysis';
+import SlaOverview from './SlaOverview';
+import WorkshopComplianceChart from './WorkshopComplianceChart';
+import SlaSettingsModal from './SlaSettingsModal';
+import ClaimRulesModal from './ClaimRulesModal';
+import CurrencySettingsModal from './CurrencySettingsModal';
+import SourceRowModal from './SourceRowModal';
+import OTDetailDrawer from './OTDetailDrawer';
+import DataGrid, { GridColumn } from './DataGrid';
+import MultiSelectFilter from './MultiSelectFilter';
+import SavedViewsMenu from './SavedViewsMenu';
 
 interface DashboardProps {
   uniqueOTs: ParsedOT[]; // For Compliance
@@ -17,37 +45,63 @@ interface DashboardProps {
   sheetName?: string;
   mapping: ColumnMapping;
   report?: ProcessingReport;
+  internalClients: InternalClient[];
+  calendarSettings: CalendarSettings;
+  loadSourceRow: (ot: ParsedOT) => Promise<ExcelRow | null>; // Original cells, read on demand
 }
 
 const COLORS = {
     onTime: '#22c55e', // green-500
     late: '#ef4444',   // red-500
-    pending: '#eab308' // yellow-500
+    pendingOverdue: '#f97316', // orange-500
+    pendingOnTrack: '#eab308', // yellow-500
+    noDate: '#94a3b8' // slate-400
 };
 
-const MONTH_NAMES = [
-  "Enero", "Febrero", "Marzo", "Abril", "Mayo", "Junio",
-  "Julio", "Agosto", "Septiembre", "Octubre", "Noviembre", "Diciembre"
+const STATUS_BADGE_CLASSES: Record<OTStatus, string> = {
+    onTime: 'text-green-600 font-bold',
+    late: 'text-red-600 font-bold',
+    pendingOverdue: 'text-orange-600 font-semibold',
+    pendingOnTrack: 'text-yellow-600',
+    noDate: 'text-slate-500'
+};
+
+// Shown until the worker answers for the first time
+const EMPTY_STATS = calculateStats([]);
+
+// Latest worker answer with the classification it was computed on
+interface AnalysisState {
+  result: DashboardAnalysis;
+  classified: ClassifiedDataset;
+  claimCategories: ClaimCategory[];
+}
+
+// Rows of the analysis picked by one of its index lists; none until the first answer
+const pickFrom = (analysis: AnalysisState | null, rows: ParsedOT[], select: (result: DashboardAnalysis) => number[]) =>
+  analysis ? pickRows(rows, select(analysis.result)) : [];
+
+// Free-text search of the detail tables
+const getOTSearchText = (ot: ParsedOT) => `${ot.id} ${ot.folio} ${ot.clientCode} ${ot.invoiceId || ''}`;
+
+const COMPARISON_OPTIONS: { value: ComparisonMode; label: string }[] = [
+  { value: 'none', label: 'Sin comparación' },
+  { value: 'previous', label: 'vs. período anterior' },
+  { value: 'lastYear', label: 'vs. mismo período año anterior' },
+  { value: 'ytd', label: 'Acumulado (YTD) vs. año anterior' }
 ];
 
-// Helper for formatting currency
-const formatCurrency = (amount: number) => {
-    return amount.toLocaleString('es-PY', { style: 'currency', currency: 'PYG' }).replace('PYG', 'Gs');
+// Financial amount per workshop, based on every row (not only unique OTs)
+const sumAmountByWorkshop = (rows: ParsedOT[]): Record<string, number> => {
+    const totals: Record<string, number> = {};
+    rows.forEach(row => {
+        totals[row.workshop] = (totals[row.workshop] || 0) + row.amount;
+    });
+    return totals;
 };
 
-const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, fileName, sheetName, mapping, report }) => {
+const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, fileName, sheetName, mapping, report, internalClients, calendarSettings, loadSourceRow }) => {
   
   // -- GLOBAL FILTERS (Date & Workshop) apply to both tabs --
-  const availableYears = useMemo(() => {
-    const years = new Set<number>();
-    allRows.forEach(ot => {
-      if (ot.billingDate && ot.billingDate instanceof Date && !isNaN(ot.billingDate.getTime())) {
-        years.add(ot.billingDate.getFullYear());
-      }
-    });
-    return Array.from(years).sort((a, b) => b - a);
-  }, [allRows]);
-
   const availableWorkshops = useMemo(() => {
     const workshops = new Set<string>();
     allRows.forEach(ot => workshops.add(ot.workshop));
@@ -75,86 +129,218 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
   }, [allRows, mapping.additionalFilters]);
 
   // State
-  const [activeTab, setActiveTab] = useState<'compliance' | 'financial'>('compliance');
-  const [selectedYear, setSelectedYear] = useState<string>('all');
-  const [selectedMonth, setSelectedMonth] = useState<string>('all');
-  const [selectedWorkshop, setSelectedWorkshop] = useState<string>('all');
-  const [dynamicFilters, setDynamicFilters] = useState<Record<string, string>>({});
+  // A shared link opens the view it was copied from
+  const [initialView] = useState<DashboardView>(
+    () => adaptViewToFields(decodeViewHash(window.location.hash) || DEFAULT_VIEW, mapping.additionalFilters)
+  );
+  const [activeTab, setActiveTab] = useState<DashboardTab>(initialView.activeTab);
+  const [filters, setFilters] = useState<DashboardFilters>(initialView.filters);
   const [isAuditOpen, setIsAuditOpen] = useState<boolean>(false);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>(initialView.comparisonMode);
+  const [asOfDate, setAsOfDate] = useState<string>(() => toInputDate(new Date()));
+  const [countOverdueAsLate, setCountOverdueAsLate] = useState<boolean>(false);
+  const [slaSettings, setSlaSettings] = useState<SlaSettings>(loadSlaSettings);
+  const [isSlaOpen, setIsSlaOpen] = useState<boolean>(false);
+  const [claimCategories, setClaimCategories] = useState<ClaimCategory[]>(loadClaimCategories);
+  const [isClaimRulesOpen, setIsClaimRulesOpen] = useState<boolean>(false);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(loadCurrencySettings);
+  const [isCurrencyOpen, setIsCurrencyOpen] = useState<boolean>(false);
+  const [sourceRowOt, setSourceRowOt] = useState<ParsedOT | null>(null);
+  const [detailOtId, setDetailOtId] = useState<string | null>(null);
 
-  // Common Filter Function
-  const checkFilters = (ot: ParsedOT) => {
-      // Date Filter
-      let dateMatch = true;
-      if (selectedYear !== 'all') {
-         if (!ot.billingDate) {
-            dateMatch = false;
-         } else {
-            const yearMatch = ot.billingDate.getFullYear().toString() === selectedYear;
-            const monthMatch = selectedMonth === 'all' || ot.billingDate.getMonth().toString() === selectedMonth;
-            dateMatch = yearMatch && monthMatch;
-         }
-      }
-      // Workshop Filter
-      const workshopMatch = selectedWorkshop === 'all' || ot.workshop === selectedWorkshop;
-      // Dynamic Filters
-      let dynamicMatch = true;
-      for (const [field, value] of Object.entries(dynamicFilters)) {
-        if (value !== 'all' && ot.customValues[field] !== value) {
-          dynamicMatch = false;
-          break;
-        }
-      }
-      return dateMatch && workshopMatch && dynamicMatch;
+  const updateFilters = (changes: Partial<DashboardFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  const currentView = useMemo<DashboardView>(
+    () => ({ filters, activeTab, comparisonMode }),
+    [filters, activeTab, comparisonMode]
+  );
+
+  const applyView = (view: DashboardView) => {
+    const adapted = adaptViewToFields(view, mapping.additionalFilters);
+    setFilters(adapted.filters);
+    setActiveTab(adapted.activeTab);
+    setComparisonMode(adapted.comparisonMode);
   };
 
-  // --- INDICATOR 1: COMPLIANCE LOGIC (Unique OTs) ---
-  const complianceData = useMemo(() => {
-      return uniqueOTs.filter(ot => {
-          // EXCLUDE Internal Clients hardcoded
-          if (['C0008157', 'C0001114', 'C0001140'].includes(ot.clientCode)) return false;
-          // Apply common filters
-          return checkFilters(ot);
-      });
-  }, [uniqueOTs, selectedYear, selectedMonth, selectedWorkshop, dynamicFilters]);
+  // Keep the URL hash in sync so the address can be shared; replaceState avoids one history entry per click
+  useEffect(() => {
+    const { pathname, search } = window.location;
+    window.history.replaceState(null, '', `${pathname}${search}${encodeViewHash(currentView)}`);
+  }, [currentView]);
 
-  const complianceStats = useMemo(() => calculateStats(complianceData), [complianceData]);
+  // The view belongs to the loaded file
+  useEffect(() => () => {
+    const { pathname, search } = window.location;
+    window.history.replaceState(null, '', `${pathname}${search}`);
+  }, []);
+
+  // Years that have at least one OT with the date the period filter looks at
+  const availableYears = useMemo(() => {
+    const years = new Set<number>();
+    allRows.forEach(ot => {
+      const date = getPeriodDate(ot, filters.dateField);
+      if (date && !isNaN(date.getTime())) years.add(date.getFullYear());
+    });
+    return Array.from(years).sort((a, b) => b - a);
+  }, [allRows, filters.dateField]);
+
+  const handleCurrencySave = (settings: CurrencySettings) => {
+    setCurrencySettings(settings);
+    saveCurrencySettings(settings);
+  };
+
+  // Helper for formatting amounts in the reporting currency
+  const formatCurrency = (amount: number) => formatAmount(amount, currencySettings.reportingCurrency);
+
+  const handleClaimRulesSave = (categories: ClaimCategory[]) => {
+    setClaimCategories(categories);
+    saveClaimCategories(categories);
+  };
 
-  // --- INDICATOR 2: FINANCIAL LOGIC (All Rows) ---
-  const financialData = useMemo(() => {
-      return allRows.filter(ot => {
-          // EXCLUDE Internal Clients hardcoded
-          if (['C0008157', 'C0001114', 'C0001140'].includes(ot.clientCode)) return false;
-          return checkFilters(ot);
+  const handleSlaSave = (settings: SlaSettings) => {
+    setSlaSettings(settings);
+    saveSlaSettings(settings);
+  };
+
+  const statusOptions = useMemo<StatusOptions>(() => ({
+    asOfDate: fromInputDate(asOfDate) || new Date(),
+    countOverdueAsLate,
+    calendar: calendarSettings
+  }), [asOfDate, countOverdueAsLate, calendarSettings]);
+
+  const missingRateCurrencies = useMemo(() => getMissingRateCurrencies(allRows, currencySettings), [allRows, currencySettings]);
+
+  const qualityScore = useMemo(() => (report ? getDataQualityScore(report) : 100), [report]);
+  const dateWarnings = useMemo(
+    () => (report ? report.dateColumns.filter(col => col.inconsistent || (col.ambiguous > 0 && col.configured === 'auto')) : []),
+    [report]
+  );
+
+  // Comparison needs a period; the current range may differ from the selection (e.g. YTD)
+  const selectedRange = useMemo(
+    () => resolveFilterRange(filters, fromInputDate(asOfDate) || new Date()),
+    [filters, asOfDate]
+  );
+  const comparisonRanges = useMemo(
+    () => getComparisonRanges(selectedRange, comparisonMode),
+    [selectedRange, comparisonMode]
+  );
+  const activeRange = comparisonRanges ? comparisonRanges.current : selectedRange;
+
+  // Re-classification (reference date, calendar, currency, claim rules), filtering and stats
+  // run in the worker; the dashboard keeps the latest answer and only picks rows by index
+  const analysisQuery = useMemo<AnalysisQuery>(() => ({
+    statusOptions,
+    currencySettings,
+    claimCategories,
+    internalClients,
+    filters,
+    range: activeRange,
+    previousRange: comparisonRanges ? comparisonRanges.previous : null
+  }), [statusOptions, currencySettings, claimCategories, internalClients, filters, activeRange, comparisonRanges]);
+
+  const [analysis, setAnalysis] = useState<AnalysisState | null>(null);
+  const [isUpdating, setIsUpdating] = useState<boolean>(true);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  // Classification held here and the rows it was built from; a new file starts over
+  const heldClassification = useRef<{ id: number; uniqueOTs: ParsedOT[]; allRows: ParsedOT[] } | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    const held = heldClassification.current;
+    const known = held && held.uniqueOTs === uniqueOTs && held.allRows === allRows ? held.id : 0;
+    setIsUpdating(true);
+    analyzeInWorker({ uniqueOTs, allRows }, analysisQuery, known)
+      .then(result => {
+        if (!active) return;
+        const classified = result.classified;
+        if (classified) heldClassification.current = { id: result.classificationId, uniqueOTs, allRows };
+        setAnalysis(prev => ({ result, classified: classified || prev!.classified, claimCategories: analysisQuery.claimCategories }));
+        setAnalysisError(null);
+        setIsUpdating(false);
+      })
+      .catch(err => {
+        if (!active) return;
+        if (!isCancelled(err)) setAnalysisError('No se pudo recalcular el tablero.');
+        setIsUpdating(false);
       });
-  }, [allRows, selectedYear, selectedMonth, selectedWorkshop, dynamicFilters]);
+    return () => { active = false; };
+  }, [uniqueOTs, allRows, analysisQuery]);
+
+  // Until the first answer arrives the lists show the rows as processed
+  const classifiedUniqueOTs = analysis ? analysis.classified.uniqueOTs : uniqueOTs;
+  const classifiedAllRows = analysis ? analysis.classified.allRows : allRows;
+
+  const undatedExcluded = analysis ? analysis.result.undatedExcluded : 0;
+  const filterChips = getFilterChips(filters, activeRange, undatedExcluded);
+
+  // Without a period there is nothing to compare against
+  const clearFilters = (next: DashboardFilters) => {
+      setFilters(next);
+      if (!resolveFilterRange(next, fromInputDate(asOfDate) || new Date())) setComparisonMode('none');
+  };
+
+  // --- INDICATOR 1: COMPLIANCE LOGIC (Unique OTs, internal clients excluded) ---
+  const complianceData = useMemo(() => pickFrom(analysis, classifiedUniqueOTs, r => r.compliance), [analysis, classifiedUniqueOTs]);
+  const complianceStats = analysis ? analysis.result.complianceStats : EMPTY_STATS;
+  // A single selected workshop is measured against its own target
+  const { mode: workshopMode, values: selectedWorkshops } = filters.workshops;
+  const globalTarget = getTargetFor(slaSettings, workshopMode === 'include' && selectedWorkshops.length === 1 ? selectedWorkshops[0] : undefined);
+  const globalSlaLevel = getSlaLevel(complianceStats.averageCompliance, globalTarget);
+  const delayHistogram = analysis ? analysis.result.delayHistogram : [];
+
+  // --- COMPARISON PERIOD (same filters, reference period) ---
+  const previousComplianceStats = analysis ? analysis.result.previousComplianceStats : EMPTY_STATS;
+
+  // The trend spans every month, so it keeps all filters except the period
+  const trendData = useMemo(() => pickFrom(analysis, classifiedUniqueOTs, r => r.trend), [analysis, classifiedUniqueOTs]);
+
+  // --- INDICATOR 2: FINANCIAL LOGIC (All Rows, internal clients excluded) ---
+  const financialData = useMemo(() => pickFrom(analysis, classifiedAllRows, r => r.financial), [analysis, classifiedAllRows]);
 
   const financialTotal = useMemo(() => financialData.reduce((sum, item) => sum + item.amount, 0), [financialData]);
   const financialCount = financialData.length;
 
-  // --- CLAIMS LOGIC (Specific Client + OT Type) ---
-  const claimsData = useMemo(() => {
-      return allRows.filter(ot => {
-          // Validacion estricta: Cliente C0008157 Y Tipo OT contiene "Reclamo"
-          const isClientMatch = ot.clientCode === 'C0008157';
-          const isTypeMatch = ot.otType && ot.otType.toLowerCase().includes('reclamo');
-          
-          if (!isClientMatch || !isTypeMatch) return false;
-          
-          return checkFilters(ot);
+  const previousFinancialData = useMemo(() => pickFrom(analysis, classifiedAllRows, r => r.previousFinancial), [analysis, classifiedAllRows]);
+
+  const previousFinancialTotal = useMemo(() => previousFinancialData.reduce((sum, item) => sum + item.amount, 0), [previousFinancialData]);
+
+  // --- CLAIMS LOGIC (Configurable rules, first matching category wins) ---
+  const claimsData = useMemo(() => pickFrom(analysis, classifiedAllRows, r => r.claims), [analysis, classifiedAllRows]);
+
+  const claimCategoryOf = useMemo(() => {
+      const assignments = new Map<ParsedOT, ClaimCategory>();
+      if (!analysis) return assignments;
+      analysis.result.claims.forEach((rowIndex, i) => {
+          assignments.set(claimsData[i], analysis.claimCategories[analysis.classified.claimCategoryIndexes[rowIndex]]);
       });
-  }, [allRows, selectedYear, selectedMonth, selectedWorkshop, dynamicFilters]);
+      return assignments;
+  }, [analysis, claimsData]);
 
   const claimsTotalAmount = useMemo(() => claimsData.reduce((sum, item) => sum + item.amount, 0), [claimsData]);
   const claimsCount = claimsData.length; // Raw rows
   const claimsUniqueOTs = new Set(claimsData.map(c => c.id)).size;
 
+  const claimsByCategory = useMemo(() => (analysis ? analysis.claimCategories : claimCategories).map(category => {
+      const rows = claimsData.filter(ot => claimCategoryOf.get(ot) === category);
+      return {
+          category,
+          count: rows.length,
+          uniqueOTs: new Set(rows.map(r => r.id)).size,
+          amount: rows.reduce((sum, r) => sum + r.amount, 0)
+      };
+  }), [analysis, claimCategories, claimsData, claimCategoryOf]);
+
   const pieData = [
     { name: 'A Tiempo', value: complianceStats.totalOnTime, color: COLORS.onTime },
     { name: 'Retraso', value: complianceStats.totalLate, color: COLORS.late },
-    { name: 'Pendiente', value: complianceStats.totalPending, color: COLORS.pending },
+    { name: STATUS_LABELS.pendingOverdue, value: complianceStats.totalPendingOverdue, color: COLORS.pendingOverdue },
+    { name: STATUS_LABELS.pendingOnTrack, value: complianceStats.totalPendingOnTrack, color: COLORS.pendingOnTrack },
+    { name: STATUS_LABELS.noDate, value: complianceStats.totalNoDate, color: COLORS.noDate },
   ];
 
+  const baseFileName = fileName?.replace(/\.[^/.]+$/, "") || 'Reporte';
+
   const handleDownload = (type: 'compliance' | 'financial' | 'claims') => {
     let data: ParsedOT[] = [];
     let sheetTitle = '';
@@ -170,57 +356,186 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
         sheetTitle = 'Reporte_Reclamos';
     }
     
-    const formattedData = data.map(ot => ({
-        'Nro OT': ot.id,
-        'Taller': ot.workshop,
-        'Cliente': ot.clientCode,
-        'Tipo OT': ot.otType || '',
-        'Folio': ot.folio || '',
-        'Factura': ot.invoiceId || '',
-        'Fecha Estimada': ot.estimatedDate ? ot.estimatedDate.toLocaleDateString('es-PY') : '',
-        '2da Fecha Estimada': ot.secondEstimatedDate ? ot.secondEstimatedDate.toLocaleDateString('es-PY') : '',
-        'Fecha Real': ot.realDate ? ot.realDate.toLocaleDateString('es-PY') : '',
-        'Fecha Facturación': ot.billingDate ? ot.billingDate.toLocaleDateString('es-PY') : '',
-        'Importe': ot.amount,
-        'Estado': (() => {
-            const targetDate = ot.secondEstimatedDate || ot.estimatedDate;
-            if (!ot.realDate && !targetDate) return 'Sin Fecha';
-            if (ot.realDate && targetDate && ot.realDate <= targetDate) return 'A Tiempo';
-            if (!ot.realDate) return 'Pendiente';
-            return 'Retraso';
-        })(),
-         ...ot.customValues
-    }));
-
+    const columns = getOTExportColumns(
+        currencySettings.reportingCurrency,
+        mapping.additionalFilters,
+        type === 'claims' ? ot => claimCategoryOf.get(ot)?.name : undefined
+    );
     const wb = XLSX.utils.book_new();
-    const ws = XLSX.utils.json_to_sheet(formattedData);
-    XLSX.utils.book_append_sheet(wb, ws, sheetTitle);
-    XLSX.writeFile(wb, `${fileName?.replace(/\.[^/.]+$/, "") || 'Reporte'}_${sheetTitle}.xlsx`);
+    XLSX.utils.book_append_sheet(wb, buildTableSheet(data, columns), sheetTitle);
+    writeWorkbook(wb, `${baseFileName}_${sheetTitle}.xlsx`);
+  };
+
+  // Every view of the current filters in one workbook, for the monthly meeting
+  const handleManagementExport = () => {
+    const wb = buildManagementWorkbook({
+        fileName,
+        generatedAt: new Date(),
+        asOfDate: statusOptions.asOfDate,
+        reportingCurrency: currencySettings.reportingCurrency,
+        filterLabels: filterChips.map(chip => chip.label),
+        complianceStats,
+        complianceTarget: globalTarget.target,
+        getWorkshopTarget: workshop => getTargetFor(slaSettings, workshop).target,
+        complianceRows: complianceData,
+        financialRows: financialData,
+        claimsRows: claimsData,
+        claimsByCategory: claimsByCategory.map(({ category, count, uniqueOTs: categoryOTs, amount }) => ({
+            name: category.name, count, uniqueOTs: categoryOTs, amount
+        })),
+        getClaimCategory: ot => claimCategoryOf.get(ot)?.name,
+        customFields: mapping.additionalFilters,
+        comparison: comparisonRanges ? {
+            currentLabel: formatRange(comparisonRanges.current),
+            previousLabel: formatRange(comparisonRanges.previous),
+            previousStats: previousComplianceStats,
+            previousAmount: previousFinancialTotal
+        } : undefined,
+        report,
+        internalClients
+    });
+    writeWorkbook(wb, `${baseFileName}_Reporte_Gestion.xlsx`);
   };
 
+  // Row number in the original file; opens the row as it was read
+  const renderSourceRef = (ot: ParsedOT) => (
+    <button
+        onClick={() => setSourceRowOt(ot)}
+        className="inline-flex items-center gap-1 text-xs text-slate-500 hover:text-blue-600 font-mono"
+        title={`${getRowReference(ot)} — ver fila original`}
+    >
+        <FileSearch size={12} /> {ot.sourceRow}
+    </button>
+  );
+
   const renderStatusBadge = (ot: ParsedOT) => {
-      const targetDate = ot.secondEstimatedDate || ot.estimatedDate;
-      if (!ot.realDate && !targetDate) return <span className="text-yellow-600">⚠ Sin Fecha</span>;
-      if (ot.realDate && targetDate && ot.realDate <= targetDate) return <span className="text-green-600 font-bold">OK</span>;
-      if (!ot.realDate) return <span className="text-yellow-600">Pendiente</span>;
-      return <span className="text-red-600 font-bold">Retraso</span>;
+      const { status, daysLate, reason } = ot.status;
+      const label = status === 'onTime' ? 'OK' : status === 'noDate' ? `⚠ ${STATUS_LABELS.noDate}` : STATUS_LABELS[status];
+      return (
+          <span className={STATUS_BADGE_CLASSES[status]} title={reason}>
+              {label}
+              {daysLate !== null && <span className="ml-1 text-xs font-normal">(+{daysLate} d)</span>}
+          </span>
+      );
   };
 
+  // Columns shared by the detail grids; custom fields start hidden in the column chooser
+  const gridColumns = useMemo(() => {
+      const columns: Record<string, GridColumn<ParsedOT>> = {
+          id: {
+              id: 'id', header: 'Nro OT', value: ot => ot.id, className: 'font-medium',
+              render: ot => (
+                  <button onClick={() => setDetailOtId(ot.id)} className="text-blue-700 hover:underline" title="Ver detalle de la OT">
+                      {ot.id}
+                  </button>
+              )
+          },
+          workshop: { id: 'workshop', header: 'Taller', value: ot => ot.workshop },
+          clientCode: { id: 'clientCode', header: 'Cliente', value: ot => ot.clientCode, className: 'text-xs text-slate-500' },
+          folio: { id: 'folio', header: 'Folio', value: ot => ot.folio, className: 'text-xs' },
+          invoice: { id: 'invoice', header: 'Factura / Folio', value: ot => ot.invoiceId || ot.folio, className: 'text-xs' },
+          otType: { id: 'otType', header: 'Tipo OT', value: ot => ot.otType, className: 'text-xs' },
+          claimType: {
+              id: 'claimType', header: 'Tipo OT', value: ot => ot.otType, className: 'text-xs font-medium',
+              render: ot => <span className="text-orange-700 bg-orange-100 px-2 py-0.5 rounded-full inline-block">{ot.otType}</span>
+          },
+          claimCategory: { id: 'claimCategory', header: 'Categoría', value: ot => claimCategoryOf.get(ot)?.name, className: 'text-xs' },
+          estimatedDate: { id: 'estimatedDate', header: 'Prometida Original', value: ot => ot.estimatedDate, align: 'right', className: 'text-slate-500' },
+          secondEstimatedDate: {
+              id: 'secondEstimatedDate', header: '2da Fecha', value: ot => ot.secondEstimatedDate, align: 'right', className: 'font-medium text-blue-600',
+              render: ot => ot.secondEstimatedDate ? <span className="bg-blue-50 px-2 py-1 rounded">{ot.secondEstimatedDate.toLocaleDateString()}</span> : '-'
+          },
+          realDate: { id: 'realDate', header: 'Real', value: ot => ot.realDate, align: 'right' },
+          billingDate: { id: 'billingDate', header: 'Fecha Fact.', value: ot => ot.billingDate, align: 'right' },
+          status: { id: 'status', header: 'Estado', value: ot => ot.status.label, align: 'center', render: renderStatusBadge },
+          daysLate: { id: 'daysLate', header: 'Días de Atraso', value: ot => ot.status.daysLate, align: 'right' },
+          amount: {
+              id: 'amount', header: 'Importe', value: ot => ot.amount, align: 'right', className: 'font-mono text-slate-700',
+              render: ot => formatAmount(ot.amount, currencySettings.reportingCurrency)
+          },
+          originalAmount: {
+              id: 'originalAmount', header: 'Importe Original', value: ot => ot.originalAmount, align: 'right', className: 'font-mono text-slate-500',
+              render: ot => formatAmount(ot.originalAmount, ot.currency)
+          },
+          sourceRow: { id: 'sourceRow', header: 'Fila', value: ot => ot.sourceRow, align: 'right', render: renderSourceRef }
+      };
+      const custom = mapping.additionalFilters.map((field): GridColumn<ParsedOT> => ({
+          id: `custom:${field}`, header: field, value: ot => ot.customValues[field], defaultVisible: false
+      }));
+      const pick = (visible: string[], hidden: string[]) => [
+          ...visible.map(id => columns[id]),
+          ...hidden.map(id => ({ ...columns[id], defaultVisible: false })),
+          ...custom
+      ];
+      return {
+          compliance: pick(
+              ['id', 'workshop', 'estimatedDate', 'secondEstimatedDate', 'realDate', 'status', 'sourceRow'],
+              ['clientCode', 'folio', 'otType', 'daysLate', 'billingDate']
+          ),
+          financial: pick(
+              ['id', 'clientCode', 'invoice', 'workshop', 'billingDate', 'amount', 'sourceRow'],
+              ['otType', 'originalAmount', 'status']
+          ),
+          claims: pick(
+              ['id', 'workshop', 'claimCategory', 'claimType', 'billingDate', 'amount', 'sourceRow'],
+              ['clientCode', 'folio', 'originalAmount', 'status']
+          )
+      };
+  }, [mapping.additionalFilters, currencySettings.reportingCurrency, claimCategoryOf]);
+  const { compliance: complianceColumns, financial: financialColumns, claims: claimsColumns } = gridColumns;
+
   return (
     <div className="space-y-6 animate-fade-in pb-12">
       {report && (
         <AuditModal 
             report={report} 
+            internalClients={internalClients}
             isOpen={isAuditOpen} 
             onClose={() => setIsAuditOpen(false)} 
+            onSelectOT={setDetailOtId}
         />
       )}
+      <ClaimRulesModal
+          categories={claimCategories}
+          customFields={mapping.additionalFilters}
+          isOpen={isClaimRulesOpen}
+          onClose={() => setIsClaimRulesOpen(false)}
+          onSave={handleClaimRulesSave}
+      />
+      <OTDetailDrawer
+          otId={detailOtId}
+          uniqueOTs={classifiedUniqueOTs}
+          allRows={classifiedAllRows}
+          report={report}
+          reportingCurrency={currencySettings.reportingCurrency}
+          renderStatusBadge={renderStatusBadge}
+          onShowSourceRow={setSourceRowOt}
+          onClose={() => setDetailOtId(null)}
+      />
+      <SourceRowModal ot={sourceRowOt} loadRow={loadSourceRow} onClose={() => setSourceRowOt(null)} />
+      <CurrencySettingsModal
+          settings={currencySettings}
+          isOpen={isCurrencyOpen}
+          onClose={() => setIsCurrencyOpen(false)}
+          onSave={handleCurrencySave}
+      />
+      <SlaSettingsModal
+          settings={slaSettings}
+          workshops={availableWorkshops}
+          isOpen={isSlaOpen}
+          onClose={() => setIsSlaOpen(false)}
+          onSave={handleSlaSave}
+      />
 
       {/* Header & Controls */}
       <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
           <div>
-              <h2 className="text-xl font-bold text-slate-800">Tablero de Control</h2>
+              <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                Tablero de Control
+                {isUpdating && <span className="text-xs font-normal text-blue-600 animate-pulse">Actualizando...</span>}
+                {analysisError && <span className="text-xs font-normal text-red-600">{analysisError}</span>}
+              </h2>
               <div className="flex items-center gap-2 text-sm text-slate-500 mt-1">
                 <span className="bg-slate-100 px-2 py-0.5 rounded text-slate-600">{fileName}</span>
                 <span className="font-medium text-blue-600">{sheetName}</span>
@@ -234,8 +549,40 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
                 >
                     <ShieldAlert size={16} className="text-orange-500" />
                     Auditoría
+                    <span
+                        className={`ml-1 px-1.5 py-0.5 rounded text-xs font-semibold ${
+                            qualityScore >= 95 ? 'bg-green-100 text-green-700' : qualityScore >= 85 ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700'
+                        }`}
+                        title="Calidad de datos: filas sin observaciones"
+                    >
+                        {qualityScore}%
+                    </span>
                 </button>
              )}
+             <SavedViewsMenu currentView={currentView} onApply={applyView} />
+             <button
+                onClick={handleManagementExport}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-colors border bg-slate-50 text-slate-600 border-slate-200 hover:bg-slate-100"
+                title="Libro con resumen, talleres, detalles y auditoría de la vista actual"
+             >
+                <FileSpreadsheet size={16} className="text-green-700" />
+                Reporte de gestión
+             </button>
+             <button
+                onClick={() => setIsSlaOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-colors border bg-slate-50 text-slate-600 border-slate-200 hover:bg-slate-100"
+             >
+                <Target size={16} className="text-blue-600" />
+                Metas
+             </button>
+             <button
+                onClick={() => setIsCurrencyOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-colors border bg-slate-50 text-slate-600 border-slate-200 hover:bg-slate-100"
+                title="Moneda de reporte y cotizaciones"
+             >
+                <Coins size={16} className="text-green-600" />
+                {currencySettings.reportingCurrency}
+             </button>
              <button 
                 onClick={onReset}
                 className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-lg transition-colors"
@@ -245,6 +592,22 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
           </div>
         </div>
 
+        {dateWarnings.length > 0 && (
+            <div className="mb-4 bg-orange-50 border border-orange-200 p-3 rounded-lg flex items-start gap-2 text-sm text-orange-800">
+                <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+                <div>
+                    {dateWarnings.map(col => (
+                        <div key={col.column}>
+                            <strong>{col.column}</strong>: {col.inconsistent
+                                ? 'mezcla fechas DD/MM y MM/DD'
+                                : `${col.ambiguous} fecha(s) ambiguas, leídas como ${DATE_FORMAT_LABELS[col.format]}`}.
+                        </div>
+                    ))}
+                    <button onClick={() => setIsAuditOpen(true)} className="font-medium underline hover:text-orange-900">Ver auditoría</button>
+                </div>
+            </div>
+        )}
+
         {/* Global Filters */}
         <div className="flex flex-wrap items-center gap-4 pt-4 border-t border-slate-100">
           <div className="flex items-center gap-2 text-slate-700 font-medium">
@@ -253,62 +616,183 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
           </div>
           
           <div className="flex items-center gap-2">
-            <label className="text-sm text-slate-600 flex items-center gap-1"><Calendar size={14} /> Año:</label>
-            <select 
+            <label className="text-sm text-slate-600 flex items-center gap-1"><Calendar size={14} /> Período:</label>
+            <select
               className="form-select text-sm border-slate-300 rounded-md shadow-sm focus:border-blue-500 bg-white py-1.5 px-3 border"
-              value={selectedYear}
-              onChange={(e) => { setSelectedYear(e.target.value); if (e.target.value === 'all') setSelectedMonth('all'); }}
+              value={filters.dateField}
+              onChange={(e) => updateFilters({ dateField: e.target.value as PeriodDateField })}
+              title="Fecha de la OT que decide si entra en el período"
             >
-              <option value="all">Todos</option>
-              {availableYears.map(year => <option key={year} value={year}>{year}</option>)}
+              {(Object.keys(PERIOD_DATE_FIELD_LABELS) as PeriodDateField[]).map(field => (
+                <option key={field} value={field}>{PERIOD_DATE_FIELD_LABELS[field]}</option>
+              ))}
             </select>
-          </div>
-
-          <div className="flex items-center gap-2">
-            <label className="text-sm text-slate-600">Mes:</label>
-            <select 
+            <select
               className="form-select text-sm border-slate-300 rounded-md shadow-sm focus:border-blue-500 bg-white py-1.5 px-3 border"
-              value={selectedMonth}
-              onChange={(e) => setSelectedMonth(e.target.value)}
-              disabled={selectedYear === 'all'}
+              value={filters.preset}
+              onChange={(e) => updateFilters({ preset: e.target.value as PeriodPreset })}
             >
-              <option value="all">Todos</option>
-              {MONTH_NAMES.map((month, idx) => <option key={idx} value={idx}>{month}</option>)}
+              {(Object.keys(PERIOD_PRESET_LABELS) as PeriodPreset[]).map(preset => (
+                <option key={preset} value={preset}>{PERIOD_PRESET_LABELS[preset]}</option>
+              ))}
             </select>
           </div>
 
-           <div className="flex items-center gap-2 border-l border-slate-200 pl-4 ml-2">
-            <label className="text-sm text-slate-600 flex items-center gap-1"><Wrench size={14} /> Taller:</label>
-            <select 
+          {filters.preset === 'calendar' && (
+            <>
+              <div className="flex items-center gap-2">
+                <label className="text-sm text-slate-600">Año:</label>
+                <select 
+                  className="form-select text-sm border-slate-300 rounded-md shadow-sm focus:border-blue-500 bg-white py-1.5 px-3 border"
+                  value={filters.year}
+                  onChange={(e) => {
+                    updateFilters(e.target.value === 'all' ? { year: 'all', month: 'all' } : { year: e.target.value });
+                    if (e.target.value === 'all') setComparisonMode('none');
+                  }}
+                >
+                  <option value="all">Todos</option>
+                  {availableYears.map(year => <option key={year} value={year}>{year}</option>)}
+                </select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <label className="text-sm text-slate-600">Mes:</label>
+                <select 
+                  className="form-select text-sm border-slate-300 rounded-md shadow-sm focus:border-blue-500 bg-white py-1.5 px-3 border"
+                  value={filters.month}
+                  onChange={(e) => updateFilters({ month: e.target.value })}
+                  disabled={filters.year === 'all'}
+                >
+                  <option value="all">Todos</option>
+                  {MONTH_NAMES.map((month, idx) => <option key={idx} value={idx}>{month}</option>)}
+                </select>
+              </div>
+            </>
+          )}
+
+          {filters.preset === 'custom' && (
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-slate-600">Desde:</label>
+              <input
+                type="date"
+                className="text-sm border-slate-300 rounded-md shadow-sm bg-white py-1 px-2 border"
+                value={filters.from}
+                onChange={(e) => updateFilters({ from: e.target.value })}
+              />
+              <label className="text-sm text-slate-600">Hasta:</label>
+              <input
+                type="date"
+                className="text-sm border-slate-300 rounded-md shadow-sm bg-white py-1 px-2 border"
+                value={filters.to}
+                onChange={(e) => updateFilters({ to: e.target.value })}
+              />
+            </div>
+          )}
+
+          {selectedRange && (
+            <label className="flex items-center gap-1 text-xs text-slate-600 cursor-pointer" title="Sin esta opción, las OTs sin la fecha elegida quedan fuera del período">
+              <input
+                type="checkbox"
+                className="rounded text-blue-600 focus:ring-blue-500"
+                checked={filters.includeUndated}
+                onChange={(e) => updateFilters({ includeUndated: e.target.checked })}
+              />
+              Incluir OTs sin fecha
+            </label>
+          )}
+
+          <div className="flex items-center gap-2">
+            <label className="text-sm text-slate-600 flex items-center gap-1"><GitCompare size={14} /> Comparar:</label>
+            <select
               className="form-select text-sm border-slate-300 rounded-md shadow-sm focus:border-blue-500 bg-white py-1.5 px-3 border"
-              value={selectedWorkshop}
-              onChange={(e) => setSelectedWorkshop(e.target.value)}
+              value={comparisonMode}
+              onChange={(e) => setComparisonMode(e.target.value as ComparisonMode)}
+              disabled={!selectedRange}
+              title={!selectedRange ? 'Selecciona un período para comparar' : undefined}
             >
-              <option value="all">Todos</option>
-              {availableWorkshops.map(ws => <option key={ws} value={ws}>{ws}</option>)}
+              {COMPARISON_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
             </select>
           </div>
 
+          <div className="border-l border-slate-200 pl-4 ml-2">
+            <MultiSelectFilter
+              label="Taller"
+              icon={<Wrench size={14} />}
+              options={availableWorkshops}
+              value={filters.workshops}
+              onChange={(workshops) => updateFilters({ workshops })}
+            />
+          </div>
+
+          <div className="flex items-center gap-2 border-l border-slate-200 pl-4 ml-2">
+            <label className="text-sm text-slate-600 flex items-center gap-1" title="Las OTs sin entrega cuya fecha objetivo es anterior a esta fecha se consideran vencidas">
+              <Clock size={14} /> Fecha de corte:
+            </label>
+            <input
+              type="date"
+              className="text-sm border-slate-300 rounded-md shadow-sm bg-white py-1 px-2 border"
+              value={asOfDate}
+              onChange={(e) => setAsOfDate(e.target.value)}
+            />
+            <label className="flex items-center gap-1 text-xs text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                className="rounded text-blue-600 focus:ring-blue-500"
+                checked={countOverdueAsLate}
+                onChange={(e) => setCountOverdueAsLate(e.target.checked)}
+              />
+              Vencidos = retraso
+            </label>
+          </div>
+
           {mapping.additionalFilters.length > 0 && (
              <div className="flex items-center gap-4 border-l border-slate-200 pl-4 ml-2 flex-wrap">
                 {mapping.additionalFilters.map(field => (
-                  <div key={field} className="flex items-center gap-2">
-                    <label className="text-sm text-slate-600 flex items-center gap-1"><ListFilter size={14} /> {field}:</label>
-                    <select
-                      className="form-select text-sm border-slate-300 rounded-md shadow-sm bg-white py-1.5 px-3 border max-w-[150px]"
-                      value={dynamicFilters[field] || 'all'}
-                      onChange={(e) => setDynamicFilters({ ...dynamicFilters, [field]: e.target.value })}
-                    >
-                      <option value="all">Todos</option>
-                      {dynamicFilterOptions[field]?.map(opt => <option key={opt} value={opt}>{opt}</option>)}
-                    </select>
-                  </div>
+                  <MultiSelectFilter
+                    key={field}
+                    label={field}
+                    icon={<ListFilter size={14} />}
+                    options={dynamicFilterOptions[field] || []}
+                    value={filters.customFields[field] || EMPTY_VALUE_FILTER}
+                    onChange={(value) => updateFilters({ customFields: { ...filters.customFields, [field]: value } })}
+                  />
                 ))}
              </div>
           )}
         </div>
+
+        {comparisonRanges && (
+          <div className="mt-4 flex items-center gap-2 text-sm text-indigo-800 bg-indigo-50 border border-indigo-100 rounded-lg px-3 py-2">
+            <GitCompare size={16} className="text-indigo-600" />
+            Comparando <strong>{formatRange(comparisonRanges.current)}</strong> con <strong>{formatRange(comparisonRanges.previous)}</strong>
+          </div>
+        )}
       </div>
 
+      {/* Active filters */}
+      {filterChips.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-slate-500 font-medium">Contando solo:</span>
+            {filterChips.map(chip => (
+                <span key={chip.id} className="inline-flex items-center gap-1 bg-blue-50 text-blue-800 border border-blue-100 rounded-full pl-3 pr-1 py-0.5">
+                    {chip.label}
+                    <button
+                        onClick={() => clearFilters(chip.cleared)}
+                        className="p-0.5 rounded-full hover:bg-blue-100 text-blue-500 hover:text-blue-700"
+                        title="Quitar filtro"
+                    >
+                        <X size={12} />
+                    </button>
+                </span>
+            ))}
+            {filterChips.length > 1 && (
+                <button onClick={() => clearFilters({ ...DEFAULT_FILTERS, dateField: filters.dateField })} className="text-blue-600 hover:text-blue-800">
+                    Quitar todos
+                </button>
+            )}
+        </div>
+      )}
+
       {/* TABS */}
       <div className="flex gap-4 border-b border-slate-200">
           <button
@@ -341,9 +825,9 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
              <div className="bg-blue-50 border border-blue-100 p-4 rounded-lg flex items-start gap-3">
                 <Box className="text-blue-600 mt-1" size={20} />
                 <div className="text-sm text-blue-800">
-                    <strong>Datos Filtrados para Indicadores:</strong> Se han eliminado duplicados de OT (1 registro por OT) y excluido clientes internos (C0008157, C0001114, C0001140).
+                    <strong>Datos Filtrados para Indicadores:</strong> Se han eliminado duplicados de OT (1 registro por OT) y excluido clientes internos ({internalClients.length > 0 ? internalClients.map(c => c.code).join(', ') : 'ninguno configurado'}).
                     <br/>
-                    <span className="text-xs text-blue-600 mt-1 inline-block">Nota: Si existe una "2da Fecha Estimada", se utiliza esa para el cálculo de atraso.</span>
+                    <span className="text-xs text-blue-600 mt-1 inline-block">Nota: Si existe una "2da Fecha Estimada", se utiliza esa para el cálculo de atraso. {describeCalendar(calendarSettings)}.</span>
                 </div>
              </div>
 
@@ -352,20 +836,48 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
                     <span className="text-xs font-bold text-slate-500 uppercase">Total OTs Únicas</span>
                     <div className="text-3xl font-bold text-slate-900 mt-2">{complianceStats.totalOTs}</div>
+                    {comparisonRanges && (
+                        <div className="text-xs text-slate-400 mt-1">Anterior: {previousComplianceStats.totalOTs}</div>
+                    )}
                 </div>
                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
                     <span className="text-xs font-bold text-green-600 uppercase">A Tiempo</span>
                     <div className="text-3xl font-bold text-slate-900 mt-2">{complianceStats.totalOnTime}</div>
-                    <div className="text-sm text-green-600 font-medium">{complianceStats.averageCompliance}%</div>
+                    <div className="text-sm font-medium flex items-center gap-1.5" style={{ color: SLA_COLORS[globalSlaLevel] }}>
+                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: SLA_COLORS[globalSlaLevel] }}></span>
+                        {complianceStats.averageCompliance}%
+                        <span className="text-xs text-slate-400 font-normal">Meta {globalTarget.target}% · {SLA_LABELS[globalSlaLevel]}</span>
+                    </div>
+                    {comparisonRanges && (
+                        <DeltaBadge
+                            delta={complianceStats.averageCompliance - previousComplianceStats.averageCompliance}
+                            higherIsBetter
+                            format={(v) => `${v.toFixed(2)} pp`}
+                            label={`vs. ${previousComplianceStats.averageCompliance}%`}
+                        />
+                    )}
                 </div>
                  <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
                     <span className="text-xs font-bold text-red-600 uppercase">Con Retraso</span>
                     <div className="text-3xl font-bold text-slate-900 mt-2">{complianceStats.totalLate}</div>
+                    {comparisonRanges && (
+                        <DeltaBadge
+                            delta={complianceStats.totalLate - previousComplianceStats.totalLate}
+                            higherIsBetter={false}
+                            label={`vs. ${previousComplianceStats.totalLate}`}
+                        />
+                    )}
                 </div>
                  <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
                     <span className="text-xs font-bold text-yellow-600 uppercase">Pendientes / Sin Fecha</span>
                     <div className="text-3xl font-bold text-slate-900 mt-2">{complianceStats.totalPending}</div>
-                    <div className="text-xs text-slate-400 mt-1">Alertas de fecha</div>
+                    <div className="text-xs mt-1 space-y-0.5">
+                        <div className="text-orange-600">
+                            {countOverdueAsLate ? 'Vencidos contados como retraso' : `${complianceStats.totalPendingOverdue} vencidos`}
+                        </div>
+                        <div className="text-yellow-600">{complianceStats.totalPendingOnTrack} en plazo</div>
+                        <div className="text-slate-400">{complianceStats.totalNoDate} sin fecha</div>
+                    </div>
                 </div>
             </div>
 
@@ -373,20 +885,7 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 <div className="lg:col-span-2 bg-white p-6 rounded-xl shadow-sm border border-slate-100">
                      <h3 className="text-lg font-semibold text-slate-800 mb-4">Cumplimiento por Taller</h3>
-                     <div className="h-72 w-full">
-                        <ResponsiveContainer width="100%" height="100%">
-                            <BarChart data={complianceStats.workshops}>
-                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
-                                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 12}} />
-                                <YAxis axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 12}} />
-                                <Tooltip cursor={{fill: '#f1f5f9'}} />
-                                <Legend />
-                                <Bar dataKey="onTime" name="A Tiempo" stackId="a" fill={COLORS.onTime} />
-                                <Bar dataKey="late" name="Tardío" stackId="a" fill={COLORS.late} />
-                                <Bar dataKey="pending" name="Pendiente" stackId="a" fill={COLORS.pending} />
-                            </BarChart>
-                        </ResponsiveContainer>
-                     </div>
+                     <WorkshopComplianceChart stats={complianceStats} settings={slaSettings} />
                 </div>
                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 flex flex-col items-center">
                     <h3 className="text-lg font-semibold text-slate-800 mb-2 w-full">Distribución</h3>
@@ -404,6 +903,28 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
                 </div>
             </div>
 
+            <SlaOverview stats={complianceStats} settings={slaSettings} />
+
+            <DelayAnalysis
+                stats={complianceStats}
+                histogram={delayHistogram}
+                unitLabel={calendarSettings.useBusinessDays ? 'días hábiles' : 'días'}
+            />
+
+            <ComplianceTrendChart ots={trendData} />
+
+            {comparisonRanges && (
+                <WorkshopComparisonTable
+                    current={complianceStats}
+                    previous={previousComplianceStats}
+                    currentAmounts={sumAmountByWorkshop(financialData)}
+                    previousAmounts={sumAmountByWorkshop(previousFinancialData)}
+                    currentLabel={formatRange(comparisonRanges.current)}
+                    previousLabel={formatRange(comparisonRanges.previous)}
+                    formatCurrency={formatCurrency}
+                />
+            )}
+
             {/* DATA TABLE FOR COMPLIANCE */}
             <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
                 <div className="p-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center">
@@ -411,7 +932,6 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
                         <LayoutList size={18} /> Detalle de OTs Procesadas (Únicas)
                      </h3>
                      <div className="flex items-center gap-3">
-                        <span className="text-xs text-slate-500">Mostrando {complianceData.length} registros</span>
                         <button 
                             onClick={() => handleDownload('compliance')}
                             className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 border border-blue-200 rounded-md transition-colors"
@@ -420,45 +940,14 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
                         </button>
                      </div>
                 </div>
-                <div className="overflow-auto max-h-96">
-                    <table className="w-full text-sm text-left">
-                        <thead className="bg-slate-100 sticky top-0 z-10">
-                            <tr>
-                                <th className="px-4 py-2">Nro OT</th>
-                                <th className="px-4 py-2">Taller</th>
-                                <th className="px-4 py-2 text-right text-xs uppercase text-slate-500">Prometida Original</th>
-                                <th className="px-4 py-2 text-right text-xs uppercase text-blue-600">2da Fecha</th>
-                                <th className="px-4 py-2 text-right text-xs uppercase text-slate-500">Real</th>
-                                <th className="px-4 py-2 text-center">Estado</th>
-                            </tr>
-                        </thead>
-                        <tbody className="divide-y divide-slate-100">
-                            {complianceData.slice(0, 100).map((row, idx) => (
-                                <tr key={idx} className="hover:bg-slate-50">
-                                    <td className="px-4 py-2 font-medium">{row.id}</td>
-                                    <td className="px-4 py-2">{row.workshop}</td>
-                                    <td className="px-4 py-2 text-right text-slate-500">{row.estimatedDate?.toLocaleDateString() || '-'}</td>
-                                    <td className="px-4 py-2 text-right font-medium text-blue-600">
-                                        {row.secondEstimatedDate ? (
-                                            <span className="bg-blue-50 px-2 py-1 rounded">{row.secondEstimatedDate.toLocaleDateString()}</span>
-                                        ) : '-'}
-                                    </td>
-                                    <td className="px-4 py-2 text-right">{row.realDate?.toLocaleDateString() || '-'}</td>
-                                    <td className="px-4 py-2 text-center">
-                                        {renderStatusBadge(row)}
-                                    </td>
-                                </tr>
-                            ))}
-                            {complianceData.length > 100 && (
-                                <tr>
-                                    <td colSpan={6} className="px-4 py-2 text-center text-slate-500 italic">
-                                        ... y {complianceData.length - 100} registros más
-                                    </td>
-                                </tr>
-                            )}
-                        </tbody>
-                    </table>
-                </div>
+                <DataGrid
+                    gridId="compliance"
+                    rows={complianceData}
+                    columns={complianceColumns}
+                    getSearchText={getOTSearchText}
+                    searchPlaceholder="Buscar OT, folio, cliente o factura..."
+                    height={420}
+                />
             </div>
         </div>
       )}
@@ -471,9 +960,22 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
                 <div className="text-sm text-green-800">
                     <strong>Datos Filtrados para Finanzas:</strong> Se incluyen todas las facturas/filas (permitiendo duplicados de OT si tienen diferente facturación). Se excluyen clientes internos.
                     Datos basados en <strong>{financialCount}</strong> registros.
+                    Importes expresados en <strong>{currencySettings.reportingCurrency}</strong>.
                 </div>
              </div>
 
+             {missingRateCurrencies.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 p-4 rounded-lg flex items-start gap-3">
+                    <AlertTriangle className="text-yellow-600 mt-0.5" size={18} />
+                    <div className="text-sm text-yellow-800">
+                        Sin cotización para <strong>{missingRateCurrencies.join(', ')}</strong>: los importes en esa moneda se cuentan como 0.
+                        <button onClick={() => setIsCurrencyOpen(true)} className="ml-1 font-medium underline hover:text-yellow-900">
+                            Cargar cotizaciones
+                        </button>
+                    </div>
+                </div>
+             )}
+
              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                  {/* Financial KPI */}
                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 relative overflow-hidden">
@@ -481,6 +983,16 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
                     <span className="text-xs font-bold text-slate-500 uppercase">Facturación Total (Sin Internos)</span>
                     <div className="text-4xl font-bold text-slate-900 mt-2">{formatCurrency(financialTotal)}</div>
                     <div className="mt-2 text-sm text-slate-500">{financialCount} transacciones procesadas</div>
+                    {comparisonRanges && (
+                        <div className="mt-1">
+                            <DeltaBadge
+                                delta={financialTotal - previousFinancialTotal}
+                                higherIsBetter
+                                format={formatCurrency}
+                                label={`vs. ${formatCurrency(previousFinancialTotal)} (${formatRange(comparisonRanges.previous)})`}
+                            />
+                        </div>
+                    )}
                 </div>
 
                 {/* Claims KPI */}
@@ -488,8 +1000,14 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
                     <div className="flex justify-between items-start mb-2">
                         <div className="flex items-center gap-2">
                             <AlertCircle className="text-orange-500" size={20} />
-                            <h3 className="font-bold text-slate-800">Reclamos (C0008157 + Tipo Reclamo)</h3>
+                            <h3 className="font-bold text-slate-800">Reclamos ({claimCategories.length} categoría(s))</h3>
                         </div>
+                        <button
+                            onClick={() => setIsClaimRulesOpen(true)}
+                            className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-orange-700 bg-orange-50 hover:bg-orange-100 border border-orange-200 rounded-md transition-colors"
+                        >
+                            <ListFilter size={12} /> Reglas
+                        </button>
                     </div>
                     <div className="flex justify-between items-end mt-4">
                         <div>
@@ -502,6 +1020,18 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
                             <div className="text-xs text-slate-400">({claimsCount} registros)</div>
                         </div>
                     </div>
+                    {claimsByCategory.length > 0 && (
+                        <div className="mt-4 pt-3 border-t border-slate-100 space-y-1.5">
+                            {claimsByCategory.map(({ category, count, uniqueOTs: categoryOTs, amount }) => (
+                                <div key={category.id} className="flex justify-between items-center text-xs" title={describeCategory(category)}>
+                                    <span className="text-slate-600 font-medium">{category.name}</span>
+                                    <span className="text-slate-500">
+                                        {categoryOTs} OTs ({count} reg.) · <span className="font-mono text-slate-700">{formatCurrency(amount)}</span>
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
                 </div>
              </div>
              
@@ -513,7 +1043,6 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
                             <AlertCircle size={18} className="text-orange-600"/> Detalle de Reclamos Detectados
                          </h3>
                          <div className="flex items-center gap-3">
-                             <span className="text-xs text-slate-500">Mostrando {claimsData.length} registros</span>
                              <button 
                                 onClick={() => handleDownload('claims')}
                                 className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-orange-700 bg-white hover:bg-orange-50 border border-orange-200 rounded-md transition-colors"
@@ -522,39 +1051,14 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
                             </button>
                          </div>
                     </div>
-                    <div className="overflow-auto max-h-[400px]">
-                        <table className="w-full text-sm text-left">
-                            <thead className="bg-slate-100 sticky top-0 z-10">
-                                <tr>
-                                    <th className="px-4 py-2">Nro OT</th>
-                                    <th className="px-4 py-2">Taller</th>
-                                    <th className="px-4 py-2">Tipo OT</th>
-                                    <th className="px-4 py-2 text-right">Fecha Fact.</th>
-                                    <th className="px-4 py-2 text-right">Importe</th>
-                                </tr>
-                            </thead>
-                            <tbody className="divide-y divide-slate-100">
-                                {claimsData.slice(0, 500).map((row, idx) => (
-                                    <tr key={idx} className="hover:bg-slate-50">
-                                        <td className="px-4 py-2 font-medium">{row.id}</td>
-                                        <td className="px-4 py-2">{row.workshop}</td>
-                                        <td className="px-4 py-2 text-xs font-medium"><span className="text-orange-700 bg-orange-100 px-2 py-0.5 rounded-full inline-block">{row.otType}</span></td>
-                                        <td className="px-4 py-2 text-right">{row.billingDate?.toLocaleDateString() || '-'}</td>
-                                        <td className="px-4 py-2 text-right font-mono text-slate-700">
-                                            {formatCurrency(row.amount)}
-                                        </td>
-                                    </tr>
-                                ))}
-                                {claimsData.length > 500 && (
-                                    <tr>
-                                        <td colSpan={5} className="px-4 py-2 text-center text-slate-500 italic">
-                                            ... y {claimsData.length - 500} registros más
-                                        </td>
-                                    </tr>
-                                )}
-                            </tbody>
-                        </table>
-                    </div>
+                    <DataGrid
+                        gridId="claims"
+                        rows={claimsData}
+                        columns={claimsColumns}
+                        getSearchText={getOTSearchText}
+                        searchPlaceholder="Buscar OT, folio, cliente o factura..."
+                        height={400}
+                    />
                 </div>
              )}
 
@@ -565,7 +1069,6 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
                         <LayoutList size={18} /> Detalle de Facturación (Todos los registros)
                      </h3>
                      <div className="flex items-center gap-3">
-                         <span className="text-xs text-slate-500">Mostrando {financialData.length} registros</span>
                          <button 
                             onClick={() => handleDownload('financial')}
                             className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-green-700 bg-green-50 hover:bg-green-100 border border-green-200 rounded-md transition-colors"
@@ -574,41 +1077,14 @@ const Dashboard: React.FC<DashboardProps> = ({ uniqueOTs, allRows, onReset, file
                         </button>
                      </div>
                 </div>
-                <div className="overflow-auto max-h-[500px]">
-                    <table className="w-full text-sm text-left">
-                        <thead className="bg-slate-100 sticky top-0 z-10">
-                            <tr>
-                                <th className="px-4 py-2">Nro OT</th>
-                                <th className="px-4 py-2">Cliente</th>
-                                <th className="px-4 py-2">Factura / Folio</th>
-                                <th className="px-4 py-2">Taller</th>
-                                <th className="px-4 py-2 text-right">Fecha Fact.</th>
-                                <th className="px-4 py-2 text-right">Importe</th>
-                            </tr>
-                        </thead>
-                        <tbody className="divide-y divide-slate-100">
-                            {financialData.slice(0, 100).map((row, idx) => (
-                                <tr key={idx} className="hover:bg-slate-50">
-                                    <td className="px-4 py-2 font-medium">{row.id}</td>
-                                    <td className="px-4 py-2 text-xs text-slate-500">{row.clientCode}</td>
-                                    <td className="px-4 py-2 text-xs">{row.invoiceId || row.folio || '-'}</td>
-                                    <td className="px-4 py-2">{row.workshop}</td>
-                                    <td className="px-4 py-2 text-right">{row.billingDate?.toLocaleDateString() || '-'}</td>
-                                    <td className="px-4 py-2 text-right font-mono text-slate-700">
-                                        {formatCurrency(row.amount)}
-                                    </td>
-                                </tr>
-                            ))}
-                            {financialData.length > 100 && (
-                                <tr>
-                                    <td colSpan={6} className="px-4 py-2 text-center text-slate-500 italic">
-                                        ... y {financialData.length - 100} registros más
-                                    </td>
-                                </tr>
-                            )}
-                        </tbody>
-                    </table>
-                </div>
+                <DataGrid
+                    gridId="financial"
+                    rows={financialData}
+                    columns={financialColumns}
+                    getSearchText={getOTSearchText}
+                    searchPlaceholder="Buscar OT, folio, cliente o factura..."
+                    height={500}
+                />
             </div>
         </div>
       )}
@@ -0,0 +1,251 @@
+import React, { useState, useMemo, useDeferredValue, useRef, useEffect } from 'react';
+import { GridSettings } from '../types';
+import { loadGridSettings, saveGridSettings, DEFAULT_GRID_SETTINGS } from '../utils/gridSettings';
+import { Search, Columns, ArrowUp, ArrowDown, ArrowUpDown, RotateCcw } from 'lucide-react';
+
+export type GridValue = string | number | Date | null | undefined;
+
+export interface GridColumn<T> {
+  id: string;
+  header: string;
+  value: (row: T) => GridValue; // Used to sort and filter
+  render?: (row: T) => React.ReactNode; // Defaults to the formatted value
+  align?: 'left' | 'right' | 'center';
+  className?: string;
+  defaultVisible?: boolean; // Hidden until picked in the column chooser when false
+}
+
+interface DataGridProps<T> {
+  gridId: string; // Key for the saved columns and sort order
+  rows: T[];
+  columns: GridColumn<T>[];
+  getSearchText: (row: T) => string;
+  searchPlaceholder?: string;
+  height?: number; // Scroll area in px
+}
+
+// Rows are drawn with a fixed height so only the visible window needs to be rendered
+const ROW_HEIGHT = 41;
+const OVERSCAN = 8;
+
+const ALIGN_CLASSES = { left: 'text-left', right: 'text-right', center: 'text-center' };
+
+const isEmptyValue = (value: GridValue) => value === null || value === undefined || value === '';
+
+const formatValue = (value: GridValue): string => {
+  if (isEmptyValue(value)) return '';
+  if (value instanceof Date) return value.toLocaleDateString('es-PY');
+  if (typeof value === 'number') return value.toLocaleString('es-PY');
+  return String(value);
+};
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const compareValues = (a: GridValue, b: GridValue): number => {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), 'es', { numeric: true });
+};
+
+const DataGrid = <T,>({ gridId, rows, columns, getSearchText, searchPlaceholder, height = 420 }: DataGridProps<T>) => {
+  const [settings, setSettings] = useState<GridSettings>(() => loadGridSettings(gridId));
+  const [search, setSearch] = useState('');
+  const [columnFilters, setColumnFilters] = useState<Record<string, string>>({});
+  const [isChooserOpen, setIsChooserOpen] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const deferredSearch = useDeferredValue(search);
+  const deferredFilters = useDeferredValue(columnFilters);
+
+  const updateSettings = (next: GridSettings) => {
+    setSettings(next);
+    saveGridSettings(gridId, next);
+  };
+
+  const isVisible = (column: GridColumn<T>) =>
+    settings.visibleColumns ? settings.visibleColumns.includes(column.id) : column.defaultVisible !== false;
+  const visibleColumns = columns.filter(isVisible);
+
+  const filteredRows = useMemo(() => {
+    const term = normalize(deferredSearch.trim());
+    const filters = Object.entries(deferredFilters)
+      .map(([id, text]) => ({ column: columns.find(c => c.id === id), text: normalize(text.trim()) }))
+      .filter((f): f is { column: GridColumn<T>; text: string } => !!f.column && f.text !== '');
+
+    const result = rows.filter(row =>
+      (!term || normalize(getSearchText(row)).includes(term)) &&
+      filters.every(({ column, text }) => normalize(formatValue(column.value(row))).includes(text))
+    );
+
+    const sortColumn = settings.sort && columns.find(c => c.id === settings.sort!.columnId);
+    if (sortColumn) {
+      const direction = settings.sort!.direction === 'asc' ? 1 : -1;
+      // Empty values always go last, whatever the direction
+      result.sort((x, y) => {
+        const a = sortColumn.value(x);
+        const b = sortColumn.value(y);
+        if (isEmptyValue(a) || isEmptyValue(b)) return Number(isEmptyValue(a)) - Number(isEmptyValue(b));
+        return direction * compareValues(a, b);
+      });
+    }
+    return result;
+  }, [rows, columns, getSearchText, deferredSearch, deferredFilters, settings.sort]);
+
+  // Back to the top whenever the result changes
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [filteredRows]);
+
+  const toggleSort = (columnId: string) => {
+    const current = settings.sort?.columnId === columnId ? settings.sort.direction : null;
+    const sort = current === null ? { columnId, direction: 'asc' as const }
+      : current === 'asc' ? { columnId, direction: 'desc' as const }
+      : null;
+    updateSettings({ ...settings, sort });
+  };
+
+  const toggleColumn = (column: GridColumn<T>) => {
+    const visible = columns.filter(isVisible).map(c => c.id);
+    const next = visible.includes(column.id) ? visible.filter(id => id !== column.id) : [...visible, column.id];
+    if (next.length === 0) return;
+    // A hidden column should not keep filtering the rows
+    if (!next.includes(column.id)) {
+      setColumnFilters(prev => {
+        const { [column.id]: _removed, ...rest } = prev;
+        return rest;
+      });
+    }
+    updateSettings({ ...settings, visibleColumns: next });
+  };
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(filteredRows.length, Math.ceil((scrollTop + height) / ROW_HEIGHT) + OVERSCAN);
+  const hasFilters = search.trim() !== '' || Object.values(columnFilters).some(text => text.trim() !== '');
+
+  return (
+    <div>
+      {/* Toolbar */}
+      <div className="px-4 py-2 border-b border-slate-100 flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[12rem] max-w-sm">
+          <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            type="text"
+            className="w-full text-sm border border-slate-300 rounded-md pl-7 pr-2 py-1"
+            placeholder={searchPlaceholder || 'Buscar...'}
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <span className="text-xs text-slate-500">
+          {filteredRows.length.toLocaleString('es-PY')}{hasFilters ? ` de ${rows.length.toLocaleString('es-PY')}` : ''} registros
+        </span>
+        {hasFilters && (
+          <button
+            onClick={() => { setSearch(''); setColumnFilters({}); }}
+            className="text-xs text-blue-600 hover:text-blue-800"
+          >
+            Limpiar filtros
+          </button>
+        )}
+        <div className="relative ml-auto">
+          <button
+            onClick={() => setIsChooserOpen(!isChooserOpen)}
+            className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-slate-600 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-md transition-colors"
+          >
+            <Columns size={14} /> Columnas
+          </button>
+          {isChooserOpen && (
+            <div className="absolute right-0 mt-1 w-56 bg-white border border-slate-200 rounded-lg shadow-lg z-20 p-2">
+              <div className="max-h-64 overflow-y-auto">
+                {columns.map(column => (
+                  <label key={column.id} className="flex items-center gap-2 px-1 py-1 text-xs text-slate-700 hover:bg-slate-50 rounded cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="rounded text-blue-600 focus:ring-blue-500"
+                      checked={isVisible(column)}
+                      onChange={() => toggleColumn(column)}
+                    />
+                    <span className="truncate" title={column.header}>{column.header}</span>
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={() => updateSettings(DEFAULT_GRID_SETTINGS)}
+                className="mt-1 w-full flex items-center justify-center gap-1 text-xs text-slate-500 hover:text-slate-700 pt-1 border-t border-slate-100"
+              >
+                <RotateCcw size={12} /> Restablecer
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Rows */}
+      <div
+        ref={scrollRef}
+        className="overflow-auto"
+        style={{ height }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-100 sticky top-0 z-10">
+            <tr>
+              {visibleColumns.map(column => {
+                const direction = settings.sort?.columnId === column.id ? settings.sort.direction : null;
+                return (
+                  <th key={column.id} className={`px-4 py-2 whitespace-nowrap ${ALIGN_CLASSES[column.align || 'left']}`}>
+                    <button
+                      onClick={() => toggleSort(column.id)}
+                      className={`inline-flex items-center gap-1 hover:text-blue-700 ${direction ? 'text-blue-700' : ''}`}
+                      title="Ordenar"
+                    >
+                      {column.header}
+                      {direction === 'asc' ? <ArrowUp size={12} /> : direction === 'desc' ? <ArrowDown size={12} /> : <ArrowUpDown size={12} className="text-slate-300" />}
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+            <tr className="bg-slate-50">
+              {visibleColumns.map(column => (
+                <th key={column.id} className="px-2 py-1 font-normal">
+                  <input
+                    type="text"
+                    className="w-full min-w-[4rem] text-xs border border-slate-200 rounded px-1.5 py-0.5"
+                    placeholder="Filtrar"
+                    value={columnFilters[column.id] || ''}
+                    onChange={(e) => setColumnFilters(prev => ({ ...prev, [column.id]: e.target.value }))}
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {first > 0 && <tr style={{ height: first * ROW_HEIGHT }} />}
+            {filteredRows.slice(first, last).map((row, index) => (
+              <tr key={first + index} className="hover:bg-slate-50" style={{ height: ROW_HEIGHT }}>
+                {visibleColumns.map(column => (
+                  <td key={column.id} className={`px-4 py-2 whitespace-nowrap ${ALIGN_CLASSES[column.align || 'left']} ${column.className || ''}`}>
+                    {column.render ? column.render(row) : formatValue(column.value(row))}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {last < filteredRows.length && <tr style={{ height: (filteredRows.length - last) * ROW_HEIGHT }} />}
+            {filteredRows.length === 0 && (
+              <tr>
+                <td colSpan={visibleColumns.length} className="px-4 py-6 text-center text-slate-500 italic">
+                  No hay registros que coincidan.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default DataGrid;
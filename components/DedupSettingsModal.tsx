@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { DedupCriterion, DedupStrategy } from '../types';
+import { X, Layers, ChevronUp, ChevronDown, RotateCcw } from 'lucide-react';
+import { DEFAULT_DEDUP_STRATEGY, DEDUP_CRITERION_LABELS, ALL_DEDUP_CRITERIA } from '../utils/dedupStrategy';
+
+interface DedupSettingsModalProps {
+  strategy: DedupStrategy;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (strategy: DedupStrategy) => void;
+}
+
+const DedupSettingsModal: React.FC<DedupSettingsModalProps> = ({ strategy, isOpen, onClose, onSave }) => {
+  const [draft, setDraft] = useState<DedupStrategy>(strategy);
+
+  // Reset the draft every time the panel is opened
+  useEffect(() => {
+    if (isOpen) setDraft(strategy);
+  }, [isOpen, strategy]);
+
+  if (!isOpen) return null;
+
+  // Active criteria keep their order; inactive ones are listed after them
+  const ordered = [...draft.criteria, ...ALL_DEDUP_CRITERIA.filter(c => !draft.criteria.includes(c))];
+
+  const toggleCriterion = (criterion: DedupCriterion) => {
+    const criteria = draft.criteria.includes(criterion)
+      ? draft.criteria.filter(c => c !== criterion)
+      : [...draft.criteria, criterion];
+    setDraft({ ...draft, criteria });
+  };
+
+  const moveCriterion = (index: number, offset: number) => {
+    const criteria = [...draft.criteria];
+    const target = index + offset;
+    if (target < 0 || target >= criteria.length) return;
+    [criteria[index], criteria[target]] = [criteria[target], criteria[index]];
+    setDraft({ ...draft, criteria });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl overflow-hidden m-4 border border-slate-200">
+
+        {/* Header */}
+        <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <div className="p-2 bg-orange-100 text-orange-600 rounded-lg">
+                <Layers size={20} />
+            </div>
+            <div>
+                <h3 className="text-lg font-bold text-slate-800">Resolución de Duplicados</h3>
+                <p className="text-xs text-slate-500">Define cómo se obtiene una OT única cuando se repite el número</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition-colors p-1 hover:bg-slate-200 rounded-full"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+            <div className="space-y-2">
+                <label className="flex items-start gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input
+                        type="radio"
+                        className="mt-1 text-blue-600 focus:ring-blue-500"
+                        checked={draft.mode === 'select'}
+                        onChange={() => setDraft({ ...draft, mode: 'select' })}
+                    />
+                    <span>
+                        <strong>Elegir un registro</strong>
+                        <span className="block text-xs text-slate-500">Se conserva la fila ganadora según los criterios y se descartan las demás.</span>
+                    </span>
+                </label>
+                <label className="flex items-start gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input
+                        type="radio"
+                        className="mt-1 text-blue-600 focus:ring-blue-500"
+                        checked={draft.mode === 'aggregate'}
+                        onChange={() => setDraft({ ...draft, mode: 'aggregate' })}
+                    />
+                    <span>
+                        <strong>Fusionar registros</strong>
+                        <span className="block text-xs text-slate-500">
+                            Se combina en una OT: fecha prometida más temprana, entrega y facturación más recientes e importe sumado.
+                            Los criterios eligen la fila base (taller, cliente, tipo).
+                        </span>
+                    </span>
+                </label>
+            </div>
+
+            <div>
+                <h4 className="font-semibold text-slate-800 text-sm mb-2">Criterios de desempate (en orden)</h4>
+                <div className="border border-slate-200 rounded divide-y divide-slate-100">
+                    {ordered.map(criterion => {
+                        const index = draft.criteria.indexOf(criterion);
+                        const active = index !== -1;
+                        return (
+                            <div key={criterion} className={`flex items-center gap-2 px-3 py-2 ${active ? '' : 'opacity-60'}`}>
+                                <input
+                                    type="checkbox"
+                                    className="rounded text-blue-600 focus:ring-blue-500"
+                                    checked={active}
+                                    onChange={() => toggleCriterion(criterion)}
+                                />
+                                <span className="w-5 text-xs font-mono text-slate-400">{active ? index + 1 : ''}</span>
+                                <span className="flex-1 text-sm text-slate-700">{DEDUP_CRITERION_LABELS[criterion]}</span>
+                                {criterion === 'preferredOtType' && active && (
+                                    <input
+                                        type="text"
+                                        className="w-32 text-xs border border-slate-300 rounded-md px-2 py-1"
+                                        placeholder="Ej: Garantía"
+                                        value={draft.preferredOtType}
+                                        onChange={(e) => setDraft({ ...draft, preferredOtType: e.target.value })}
+                                    />
+                                )}
+                                {active && (
+                                    <div className="flex">
+                                        <button
+                                            onClick={() => moveCriterion(index, -1)}
+                                            disabled={index === 0}
+                                            className="text-slate-400 hover:text-slate-700 p-0.5 disabled:opacity-30"
+                                            title="Subir"
+                                        >
+                                            <ChevronUp size={16} />
+                                        </button>
+                                        <button
+                                            onClick={() => moveCriterion(index, 1)}
+                                            disabled={index === draft.criteria.length - 1}
+                                            className="text-slate-400 hover:text-slate-700 p-0.5 disabled:opacity-30"
+                                            title="Bajar"
+                                        >
+                                            <ChevronDown size={16} />
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+                <p className="text-xs text-slate-500 mt-1">Si todos los criterios empatan, se conserva el primer registro leído.</p>
+            </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-200 flex justify-between items-center">
+            <button
+                onClick={() => setDraft(DEFAULT_DEDUP_STRATEGY)}
+                className="flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700"
+            >
+                <RotateCcw size={14} /> Restaurar predeterminados
+            </button>
+            <div className="flex gap-2">
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800"
+                >
+                    Cancelar
+                </button>
+                <button
+                    onClick={() => { onSave({ ...draft, preferredOtType: draft.preferredOtType.trim() }); onClose(); }}
+                    className="px-4 py-2 bg-slate-800 text-white text-sm font-medium rounded-lg hover:bg-slate-700 transition-colors"
+                >
+                    Guardar
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DedupSettingsModal;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { GlobalStats } from '../types';
+import { Timer } from 'lucide-react';
+
+interface DelayAnalysisProps {
+  stats: GlobalStats;
+  histogram: { label: string; count: number }[];
+  unitLabel: string; // 'días' or 'días hábiles'
+}
+
+const DelayAnalysis: React.FC<DelayAnalysisProps> = ({ stats, histogram, unitLabel }) => {
+  const workshopsWithDelays = stats.workshops.filter(w => w.delay.count > 0);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        <h3 className="text-lg font-semibold text-slate-800 mb-1 flex items-center gap-2">
+          <Timer size={20} className="text-red-500" /> Magnitud del Atraso
+        </h3>
+        <p className="text-xs text-slate-500 mb-4">
+          {stats.delay.count > 0
+            ? <>Promedio <strong>{stats.delay.average}</strong> {unitLabel} · Mediana <strong>{stats.delay.median}</strong> · P90 <strong>{stats.delay.p90}</strong> · Máximo <strong>{stats.delay.max}</strong></>
+            : 'No hay OTs con retraso en el filtro actual.'}
+        </p>
+        <div className="h-64 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={histogram}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 12}} />
+              <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 12}} />
+              <Tooltip cursor={{fill: '#f1f5f9'}} />
+              <Bar dataKey="count" name="OTs con retraso" fill="#ef4444" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-4 bg-slate-50 border-b border-slate-200">
+          <h3 className="font-bold text-slate-800">Atraso por Taller <span className="text-xs font-normal text-slate-500">({unitLabel})</span></h3>
+        </div>
+        <div className="overflow-auto max-h-80">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-slate-100 sticky top-0 z-10">
+              <tr>
+                <th className="px-4 py-2">Taller</th>
+                <th className="px-4 py-2 text-right">Retrasos</th>
+                <th className="px-4 py-2 text-right">Promedio</th>
+                <th className="px-4 py-2 text-right">Mediana</th>
+                <th className="px-4 py-2 text-right">P90</th>
+                <th className="px-4 py-2 text-right">Máximo</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {workshopsWithDelays.map(w => (
+                <tr key={w.name} className="hover:bg-slate-50">
+                  <td className="px-4 py-2 font-medium">{w.name}</td>
+                  <td className="px-4 py-2 text-right">{w.delay.count}</td>
+                  <td className="px-4 py-2 text-right">{w.delay.average}</td>
+                  <td className="px-4 py-2 text-right">{w.delay.median}</td>
+                  <td className="px-4 py-2 text-right">{w.delay.p90}</td>
+                  <td className="px-4 py-2 text-right font-medium text-red-600">{w.delay.max}</td>
+                </tr>
+              ))}
+              {workshopsWithDelays.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-6 text-center text-slate-500 italic">Sin retrasos</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DelayAnalysis;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { ArrowUpRight, ArrowDownRight, Minus } from 'lucide-react';
+
+interface DeltaBadgeProps {
+  delta: number;
+  higherIsBetter: boolean;
+  format?: (value: number) => string;
+  label?: string;
+}
+
+// Small indicator for the change between two periods, coloured by whether the change is good or bad
+const DeltaBadge: React.FC<DeltaBadgeProps> = ({ delta, higherIsBetter, format = (v) => v.toString(), label }) => {
+  const rounded = Math.round(delta * 100) / 100;
+  if (rounded === 0) {
+    return (
+      <span className="inline-flex items-center gap-0.5 text-xs font-medium text-slate-400">
+        <Minus size={12} /> Sin cambio{label ? ` ${label}` : ''}
+      </span>
+    );
+  }
+
+  const isImprovement = (rounded > 0) === higherIsBetter;
+  const colorClass = isImprovement ? 'text-green-600' : 'text-red-600';
+  const Icon = rounded > 0 ? ArrowUpRight : ArrowDownRight;
+
+  return (
+    <span className={`inline-flex items-center gap-0.5 text-xs font-medium ${colorClass}`}>
+      <Icon size={12} />
+      {rounded > 0 ? '+' : '-'}{format(Math.abs(rounded))}
+      {label && <span className="text-slate-400 font-normal ml-1">{label}</span>}
+    </span>
+  );
+};
+
+export default DeltaBadge;
@@ -1,8 +1,11 @@
 import React, { useCallback } from 'react';
 import { UploadCloud, FileSpreadsheet } from 'lucide-react';
+import { DELIMITED_EXTENSIONS } from '../utils/delimitedText';
+
+const ACCEPTED_EXTENSIONS = ['.xlsx', '.xls', ...DELIMITED_EXTENSIONS];
 
 interface FileUploaderProps {
-  onFileUpload: (file: File) => void;
+  onFileUpload: (files: File[]) => void;
   isLoading: boolean;
 }
 
@@ -12,11 +15,13 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileUpload, isLoading })
       e.preventDefault();
       e.stopPropagation();
       if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-        const file = e.dataTransfer.files[0];
-        if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
-          onFileUpload(file);
-        } else {
-          alert('Por favor sube un archivo Excel válido (.xlsx, .xls)');
+        const files = Array.from<File>(e.dataTransfer.files);
+        const valid = files.filter(file => ACCEPTED_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext)));
+        if (valid.length < files.length) {
+          alert(`Por favor sube archivos Excel o de texto válidos (${ACCEPTED_EXTENSIONS.join(', ')})`);
+        }
+        if (valid.length > 0) {
+          onFileUpload(valid);
         }
       }
     },
@@ -30,7 +35,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileUpload, isLoading })
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      onFileUpload(e.target.files[0]);
+      onFileUpload(Array.from<File>(e.target.files));
     }
   };
 
@@ -49,12 +54,12 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileUpload, isLoading })
             )}
         </div>
         <h3 className="text-xl font-semibold text-slate-800 mb-2">
-          {isLoading ? 'Procesando...' : 'Cargar archivo Excel'}
+          {isLoading ? 'Procesando...' : 'Cargar archivo Excel o CSV'}
         </h3>
         <p className="text-slate-500 text-center mb-6 max-w-sm">
-          Arrastra y suelta tu archivo aquí, o haz clic para buscar.
+          Arrastra y suelta uno o varios archivos aquí, o haz clic para buscar.
           <br />
-          <span className="text-xs text-slate-400">Formatos soportados: .xlsx, .xls</span>
+          <span className="text-xs text-slate-400">Formatos soportados: {ACCEPTED_EXTENSIONS.join(', ')}</span>
         </p>
         <div className="flex items-center gap-2 text-sm text-blue-600 font-medium bg-blue-50 px-4 py-2 rounded-lg">
             <FileSpreadsheet size={16} />
@@ -63,7 +68,8 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileUpload, isLoading })
         <input
           id="file-upload"
           type="file"
-          accept=".xlsx, .xls"
+          accept={ACCEPTED_EXTENSIONS.join(', ')}
+          multiple
           className="hidden"
           onChange={handleChange}
           disabled={isLoading}
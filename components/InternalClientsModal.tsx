@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { InternalClient } from '../types';
+import { X, Settings, Plus, Trash2, RotateCcw } from 'lucide-react';
+import { DEFAULT_INTERNAL_CLIENTS } from '../utils/internalClients';
+
+interface InternalClientsModalProps {
+  clients: InternalClient[];
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (clients: InternalClient[]) => void;
+}
+
+const InternalClientsModal: React.FC<InternalClientsModalProps> = ({ clients, isOpen, onClose, onSave }) => {
+  const [draft, setDraft] = useState<InternalClient[]>(clients);
+  const [newCode, setNewCode] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+
+  // Reset the draft every time the panel is opened
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(clients);
+      setNewCode('');
+      setNewLabel('');
+    }
+  }, [isOpen, clients]);
+
+  if (!isOpen) return null;
+
+  const trimmedCode = newCode.trim();
+  const isDuplicate = draft.some(c => c.code === trimmedCode);
+  const canAdd = trimmedCode !== '' && !isDuplicate;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    setDraft([...draft, { code: trimmedCode, label: newLabel.trim() }]);
+    setNewCode('');
+    setNewLabel('');
+  };
+
+  const handleLabelChange = (code: string, label: string) => {
+    setDraft(draft.map(c => (c.code === code ? { ...c, label } : c)));
+  };
+
+  const handleRemove = (code: string) => {
+    setDraft(draft.filter(c => c.code !== code));
+  };
+
+  const handleSave = () => {
+    onSave(draft.map(c => ({ code: c.code, label: c.label.trim() })));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl overflow-hidden m-4 border border-slate-200">
+
+        {/* Header */}
+        <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+                <Settings size={20} />
+            </div>
+            <div>
+                <h3 className="text-lg font-bold text-slate-800">Clientes Internos</h3>
+                <p className="text-xs text-slate-500">Se excluyen de los indicadores y se guardan en este navegador</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition-colors p-1 hover:bg-slate-200 rounded-full"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+            {draft.length === 0 ? (
+                <p className="text-sm text-slate-500 italic">No hay clientes internos configurados.</p>
+            ) : (
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-slate-100">
+                        <tr>
+                            <th className="px-3 py-2">Código</th>
+                            <th className="px-3 py-2">Etiqueta</th>
+                            <th className="px-3 py-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {draft.map(client => (
+                            <tr key={client.code}>
+                                <td className="px-3 py-2 font-mono font-medium">{client.code}</td>
+                                <td className="px-3 py-2">
+                                    <input
+                                        type="text"
+                                        className="w-full text-sm border border-slate-300 rounded-md px-2 py-1"
+                                        value={client.label}
+                                        onChange={(e) => handleLabelChange(client.code, e.target.value)}
+                                    />
+                                </td>
+                                <td className="px-3 py-2 text-right">
+                                    <button
+                                        onClick={() => handleRemove(client.code)}
+                                        className="text-slate-400 hover:text-red-600 p-1"
+                                        title="Eliminar"
+                                    >
+                                        <Trash2 size={16} />
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <div className="flex items-end gap-2 pt-2 border-t border-slate-100">
+                <div className="flex-1">
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Código</label>
+                    <input
+                        type="text"
+                        className="w-full text-sm border border-slate-300 rounded-md px-2 py-1.5 font-mono"
+                        placeholder="C0000000"
+                        value={newCode}
+                        onChange={(e) => setNewCode(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+                    />
+                </div>
+                <div className="flex-1">
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Etiqueta</label>
+                    <input
+                        type="text"
+                        className="w-full text-sm border border-slate-300 rounded-md px-2 py-1.5"
+                        placeholder="Ej: Subsidiaria"
+                        value={newLabel}
+                        onChange={(e) => setNewLabel(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+                    />
+                </div>
+                <button
+                    onClick={handleAdd}
+                    disabled={!canAdd}
+                    className={`flex items-center gap-1 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                        canAdd ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-slate-200 text-slate-400 cursor-not-allowed'
+                    }`}
+                >
+                    <Plus size={16} /> Agregar
+                </button>
+            </div>
+            {isDuplicate && (
+                <p className="text-xs text-red-500">El código {trimmedCode} ya está en la lista.</p>
+            )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-200 flex justify-between items-center">
+            <button
+                onClick={() => setDraft(DEFAULT_INTERNAL_CLIENTS)}
+                className="flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700"
+            >
+                <RotateCcw size={14} /> Restaurar predeterminados
+            </button>
+            <div className="flex gap-2">
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800"
+                >
+                    Cancelar
+                </button>
+                <button
+                    onClick={handleSave}
+                    className="px-4 py-2 bg-slate-800 text-white text-sm font-medium rounded-lg hover:bg-slate-700 transition-colors"
+                >
+                    Guardar
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InternalClientsModal;
@@ -0,0 +1,109 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ValueFilter } from '../types';
+import { EMPTY_VALUE_FILTER } from '../utils/dashboardFilters';
+import { ChevronDown, Search } from 'lucide-react';
+
+interface MultiSelectFilterProps {
+  label: string;
+  icon?: React.ReactNode;
+  options: string[];
+  value: ValueFilter;
+  onChange: (value: ValueFilter) => void;
+}
+
+// Checklist of values with an include/exclude switch; nothing checked means "Todos"
+const MultiSelectFilter: React.FC<MultiSelectFilterProps> = ({ label, icon, options, value, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const toggleValue = (option: string) => {
+    const values = value.values.includes(option) ? value.values.filter(v => v !== option) : [...value.values, option];
+    onChange({ ...value, values });
+  };
+
+  const term = search.trim().toLowerCase();
+  const visibleOptions = term ? options.filter(option => option.toLowerCase().includes(term)) : options;
+
+  const summary = value.values.length === 0
+    ? 'Todos'
+    : value.values.length === 1
+      ? `${value.mode === 'exclude' ? 'Excepto ' : ''}${value.values[0]}`
+      : `${value.mode === 'exclude' ? 'Excepto ' : ''}${value.values.length} seleccionados`;
+
+  return (
+    <div className="flex items-center gap-2" ref={containerRef}>
+      <label className="text-sm text-slate-600 flex items-center gap-1">{icon} {label}:</label>
+      <div className="relative">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className={`flex items-center gap-1 text-sm border rounded-md shadow-sm bg-white py-1.5 px-3 max-w-[180px] ${value.values.length > 0 ? 'border-blue-400 text-blue-700' : 'border-slate-300 text-slate-700'}`}
+          title={value.values.join(', ') || undefined}
+        >
+          <span className="truncate">{summary}</span>
+          <ChevronDown size={14} className="flex-shrink-0 text-slate-400" />
+        </button>
+        {isOpen && (
+          <div className="absolute left-0 mt-1 w-64 bg-white border border-slate-200 rounded-lg shadow-lg z-30 p-2">
+            <div className="flex rounded-md border border-slate-200 overflow-hidden text-xs mb-2">
+              {(['include', 'exclude'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => onChange({ ...value, mode })}
+                  className={`flex-1 py-1 ${value.mode === mode ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                >
+                  {mode === 'include' ? 'Incluir' : 'Excluir'}
+                </button>
+              ))}
+            </div>
+            {options.length > 8 && (
+              <div className="relative mb-2">
+                <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+                <input
+                  type="text"
+                  className="w-full text-xs border border-slate-300 rounded pl-6 pr-2 py-1"
+                  placeholder="Buscar..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="max-h-56 overflow-y-auto">
+              {visibleOptions.map(option => (
+                <label key={option} className="flex items-center gap-2 px-1 py-1 text-xs text-slate-700 hover:bg-slate-50 rounded cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="rounded text-blue-600 focus:ring-blue-500"
+                    checked={value.values.includes(option)}
+                    onChange={() => toggleValue(option)}
+                  />
+                  <span className="truncate" title={option}>{option}</span>
+                </label>
+              ))}
+              {visibleOptions.length === 0 && <p className="px-1 py-1 text-xs text-slate-400 italic">Sin coincidencias</p>}
+            </div>
+            {value.values.length > 0 && (
+              <button
+                onClick={() => onChange(EMPTY_VALUE_FILTER)}
+                className="mt-1 w-full text-xs text-slate-500 hover:text-slate-700 pt-1 border-t border-slate-100"
+              >
+                Limpiar selección
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MultiSelectFilter;
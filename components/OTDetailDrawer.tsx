@@ -0,0 +1,202 @@
+import React, { useMemo } from 'react';
+import { ParsedOT, ProcessingReport } from '../types';
+import { X, ClipboardList, FileSearch, Layers } from 'lucide-react';
+import { getRowReference } from '../utils/excelHelpers';
+import { formatCurrency } from '../utils/currency';
+
+interface OTDetailDrawerProps {
+  otId: string | null;
+  uniqueOTs: ParsedOT[]; // Classified and converted, as shown in the dashboard
+  allRows: ParsedOT[];
+  report?: ProcessingReport;
+  reportingCurrency: string;
+  renderStatusBadge: (ot: ParsedOT) => React.ReactNode;
+  onShowSourceRow: (ot: ParsedOT) => void;
+  onClose: () => void;
+}
+
+const isSameRecord = (a: ParsedOT, b: ParsedOT) =>
+  a.sourceFile === b.sourceFile && a.sourceSheet === b.sourceSheet && a.sourceRow === b.sourceRow;
+
+const formatDate = (date: Date | null) => (date ? date.toLocaleDateString('es-PY') : 'Sin fecha');
+
+// Everything known about one OT number: the record used for compliance, every invoice row and how duplicates were resolved
+const OTDetailDrawer: React.FC<OTDetailDrawerProps> = ({
+  otId, uniqueOTs, allRows, report, reportingCurrency, renderStatusBadge, onShowSourceRow, onClose
+}) => {
+  const detail = useMemo(() => {
+    if (!otId) return null;
+    return {
+      ot: uniqueOTs.find(o => o.id === otId) || null,
+      records: allRows.filter(o => o.id === otId),
+      resolution: report?.dedupResolutions.find(r => r.otId === otId),
+      notes: report ? report.removedOtIds.filter(note => note.startsWith(`${otId} (`)) : []
+    };
+  }, [otId, uniqueOTs, allRows, report]);
+
+  if (!otId || !detail) return null;
+  const { ot, records, resolution, notes } = detail;
+
+  // Dated events in chronological order, missing ones at the end
+  const timeline = ot ? [
+    { label: 'Fecha prometida', date: ot.estimatedDate },
+    { label: '2da fecha prometida', date: ot.secondEstimatedDate },
+    { label: 'Entrega real', date: ot.realDate },
+    { label: 'Facturación', date: ot.billingDate }
+  ].sort((a, b) => {
+    if (!a.date || !b.date) return Number(!a.date) - Number(!b.date);
+    return a.date.getTime() - b.date.getTime();
+  }) : [];
+
+  const total = records.reduce((sum, record) => sum + record.amount, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-slate-900/30 animate-fade-in" onClick={onClose}>
+      <div
+        className="bg-white w-full max-w-xl h-full shadow-2xl border-l border-slate-200 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 flex justify-between items-start">
+          <div className="flex items-center gap-2">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+                <ClipboardList size={20} />
+            </div>
+            <div>
+                <h3 className="text-lg font-bold text-slate-800">OT {otId}</h3>
+                {ot && (
+                    <p className="text-xs text-slate-500">
+                        {ot.workshop} · Cliente {ot.clientCode}{ot.isInternalClient ? ' (interno)' : ''} · {ot.otType}
+                    </p>
+                )}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition-colors p-1 hover:bg-slate-200 rounded-full"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto flex-1">
+            {ot ? (
+                <>
+                    {/* Status */}
+                    <div className="p-4 bg-slate-50 rounded-lg border border-slate-100">
+                        <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-slate-600">Estado</span>
+                            {renderStatusBadge(ot)}
+                        </div>
+                        <p className="text-xs text-slate-500 mt-2">{ot.status.reason}</p>
+                        {ot.status.daysLate !== null && (
+                            <p className="text-xs text-slate-600 mt-1">
+                                Atraso: <strong>{ot.status.daysLate}</strong> día(s)
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Timeline */}
+                    <div>
+                        <h4 className="font-semibold text-slate-800 text-sm mb-3">Línea de Tiempo</h4>
+                        <ol className="relative border-l border-slate-200 ml-2 space-y-3">
+                            {timeline.map(event => (
+                                <li key={event.label} className="ml-4">
+                                    <span className={`absolute -left-1.5 w-3 h-3 rounded-full border-2 border-white ${event.date ? 'bg-blue-500' : 'bg-slate-300'}`}></span>
+                                    <span className="block text-xs text-slate-500">{event.label}</span>
+                                    <span className={`text-sm ${event.date ? 'font-medium text-slate-800' : 'italic text-slate-400'}`}>{formatDate(event.date)}</span>
+                                </li>
+                            ))}
+                        </ol>
+                    </div>
+
+                    {/* Chosen record */}
+                    <div>
+                        <h4 className="font-semibold text-slate-800 text-sm mb-2 flex items-center gap-2">
+                            <Layers size={16} className="text-orange-500" /> Registro Usado para Cumplimiento
+                        </h4>
+                        <p className="text-sm text-slate-600">
+                            {resolution ? resolution.kept : getRowReference(ot)}
+                        </p>
+                        <p className="text-xs text-slate-500 mt-1">
+                            {resolution ? resolution.outcome : 'Única fila con este número de OT.'}
+                        </p>
+                        {resolution && resolution.discarded.length > 0 && (
+                            <ul className="mt-2 text-xs text-slate-600 list-disc ml-5 space-y-0.5">
+                                {resolution.discarded.map(d => (
+                                    <li key={d.reference}>{d.reference}: {d.reason}</li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </>
+            ) : (
+                <p className="text-sm text-slate-500 italic">Esta OT no figura entre las OTs únicas del análisis.</p>
+            )}
+
+            {/* Invoices */}
+            <div>
+                <h4 className="font-semibold text-slate-800 text-sm mb-2">Registros de Facturación ({records.length})</h4>
+                <div className="border border-slate-200 rounded overflow-hidden">
+                    <table className="w-full text-xs text-left">
+                        <thead className="bg-slate-100 text-slate-600">
+                            <tr>
+                                <th className="px-2 py-1">Factura / Folio</th>
+                                <th className="px-2 py-1 text-right">Fecha Fact.</th>
+                                <th className="px-2 py-1 text-right">Importe</th>
+                                <th className="px-2 py-1 text-right">Fila</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {records.map(record => (
+                                <tr key={getRowReference(record)} className={ot && isSameRecord(record, ot) ? 'bg-blue-50' : ''}>
+                                    <td className="px-2 py-1">{record.invoiceId || record.folio || '-'}</td>
+                                    <td className="px-2 py-1 text-right">{formatDate(record.billingDate)}</td>
+                                    <td className="px-2 py-1 text-right font-mono" title={record.currency !== reportingCurrency ? formatCurrency(record.originalAmount, record.currency) : undefined}>
+                                        {formatCurrency(record.amount, reportingCurrency)}
+                                    </td>
+                                    <td className="px-2 py-1 text-right">
+                                        <button
+                                            onClick={() => onShowSourceRow(record)}
+                                            className="inline-flex items-center gap-1 text-slate-500 hover:text-blue-600 font-mono"
+                                            title={`${getRowReference(record)} — ver fila original`}
+                                        >
+                                            <FileSearch size={12} /> {record.sourceRow}
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                        {records.length > 1 && (
+                            <tfoot className="bg-slate-50 font-medium">
+                                <tr>
+                                    <td className="px-2 py-1" colSpan={2}>Total</td>
+                                    <td className="px-2 py-1 text-right font-mono">{formatCurrency(total, reportingCurrency)}</td>
+                                    <td></td>
+                                </tr>
+                            </tfoot>
+                        )}
+                    </table>
+                </div>
+                {ot && records.length > 1 && (
+                    <p className="text-xs text-slate-500 mt-1">La fila resaltada es la usada para el indicador de cumplimiento.</p>
+                )}
+            </div>
+
+            {/* Duplicate notes */}
+            {notes.length > 0 && (
+                <div>
+                    <h4 className="font-semibold text-slate-800 text-sm mb-2">Notas de Duplicados</h4>
+                    <div className="p-2 bg-slate-50 border border-slate-200 rounded text-xs text-slate-600 font-mono space-y-1">
+                        {notes.map(note => <div key={note}>{note}</div>)}
+                    </div>
+                </div>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OTDetailDrawer;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { ProcessingProgress, ProcessingStage } from '../types';
+import { Loader2, X } from 'lucide-react';
+
+interface ProcessingOverlayProps {
+  progress: ProcessingProgress | null;
+  onCancel: () => void;
+}
+
+const STAGES: { stage: ProcessingStage; label: string }[] = [
+  { stage: 'reading', label: 'Leyendo archivos' },
+  { stage: 'parsing', label: 'Interpretando filas' },
+  { stage: 'deduplicating', label: 'Resolviendo duplicados' },
+  { stage: 'stats', label: 'Calculando indicadores' }
+];
+
+const ProcessingOverlay: React.FC<ProcessingOverlayProps> = ({ progress, onCancel }) => {
+  const currentIndex = progress ? STAGES.findIndex(s => s.stage === progress.stage) : 0;
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md m-4 border border-slate-200 p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <Loader2 size={20} className="text-blue-600 animate-spin" />
+          <h3 className="text-lg font-bold text-slate-800">Procesando datos</h3>
+        </div>
+
+        <ol className="space-y-2 mb-4">
+          {STAGES.map(({ stage, label }, index) => {
+            const isCurrent = index === currentIndex;
+            const isDone = index < currentIndex;
+            return (
+              <li key={stage} className={`flex items-center justify-between text-sm ${isCurrent ? 'text-slate-800 font-medium' : isDone ? 'text-green-600' : 'text-slate-400'}`}>
+                <span>{isDone ? '✓ ' : ''}{label}</span>
+                {isCurrent && progress && progress.total > 1 && (
+                  <span className="text-xs font-mono text-slate-500">{progress.done.toLocaleString('es-PY')} / {progress.total.toLocaleString('es-PY')}</span>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+          <div className="bg-blue-600 h-2 transition-all" style={{ width: `${percent}%` }}></div>
+        </div>
+        {progress?.detail && <p className="text-xs text-slate-500 mt-2 truncate">{progress.detail}</p>}
+
+        <div className="mt-5 text-right">
+          <button
+            onClick={onCancel}
+            className="inline-flex items-center gap-1 px-4 py-2 text-sm font-medium text-slate-600 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-lg transition-colors"
+          >
+            <X size={14} /> Cancelar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProcessingOverlay;
@@ -0,0 +1,137 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { DashboardView, SavedView } from '../types';
+import { loadSavedViews, saveSavedViews, upsertView } from '../utils/dashboardViews';
+import { Bookmark, Trash2, Save, Link } from 'lucide-react';
+
+interface SavedViewsMenuProps {
+  currentView: DashboardView;
+  onApply: (view: DashboardView) => void;
+}
+
+// Named filter/tab combinations kept in the browser, plus a link to the current view
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ currentView, onApply }) => {
+  const [views, setViews] = useState<SavedView[]>(loadSavedViews);
+  const [isOpen, setIsOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const updateViews = (next: SavedView[]) => {
+    setViews(next);
+    saveSavedViews(next);
+  };
+
+  const handleSave = () => {
+    const name = viewName.trim();
+    if (!name) return;
+    updateViews(upsertView(views, { name, view: currentView, updatedAt: new Date().toISOString() }));
+    setMessage(`Vista "${name}" guardada.`);
+  };
+
+  const handleApply = (saved: SavedView) => {
+    onApply(saved.view);
+    setViewName(saved.name);
+    setMessage(null);
+    setIsOpen(false);
+  };
+
+  const handleDelete = (name: string) => {
+    updateViews(views.filter(v => v.name !== name));
+    setMessage(`Vista "${name}" eliminada.`);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setMessage('Enlace copiado. Abre esta misma vista una vez cargado el mismo archivo.');
+    } catch (error) {
+      console.error('No se pudo copiar el enlace', error);
+      setMessage('No se pudo copiar el enlace; cópialo desde la barra de direcciones.');
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => { setIsOpen(!isOpen); setMessage(null); }}
+        className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-colors border bg-slate-50 text-slate-600 border-slate-200 hover:bg-slate-100"
+        title="Vistas guardadas y enlace a la vista actual"
+      >
+        <Bookmark size={16} className="text-indigo-600" />
+        Vistas
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-80 bg-white border border-slate-200 rounded-lg shadow-lg z-30 p-3 space-y-3">
+          <div>
+            <p className="text-xs font-semibold text-slate-500 uppercase mb-1">Vistas guardadas</p>
+            {views.length === 0 ? (
+              <p className="text-xs text-slate-400 italic">Todavía no hay vistas guardadas.</p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto divide-y divide-slate-100">
+                {views.map(saved => (
+                  <div key={saved.name} className="flex items-center gap-2 py-1">
+                    <button
+                      onClick={() => handleApply(saved)}
+                      className="flex-1 text-left text-sm text-slate-700 hover:text-blue-700 truncate"
+                      title={`Guardada el ${new Date(saved.updatedAt).toLocaleString('es-PY')}`}
+                    >
+                      {saved.name}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(saved.name)}
+                      className="p-1 text-slate-400 hover:text-red-600"
+                      title="Eliminar vista"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2 pt-2 border-t border-slate-100">
+            <input
+              type="text"
+              className="flex-1 text-sm border border-slate-300 rounded-md px-2 py-1"
+              placeholder="Nombre, p. ej. Reunión mensual"
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+            />
+            <button
+              onClick={handleSave}
+              disabled={!viewName.trim()}
+              className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50"
+              title={views.some(v => v.name === viewName.trim()) ? 'Reemplaza la vista con ese nombre' : undefined}
+            >
+              <Save size={14} /> Guardar
+            </button>
+          </div>
+
+          <button
+            onClick={handleCopyLink}
+            className="w-full flex items-center justify-center gap-1 px-2 py-1.5 text-xs font-medium text-slate-600 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-md"
+          >
+            <Link size={14} /> Copiar enlace a esta vista
+          </button>
+
+          {message && (
+            <p className="text-xs text-slate-500">{message}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewsMenu;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { SheetLayout, SheetPreview } from '../types';
+
+interface SheetLayoutPickerProps {
+  layout: SheetLayout;
+  preview: SheetPreview;
+  onChange: (layout: SheetLayout) => void;
+}
+
+const SheetLayoutPicker: React.FC<SheetLayoutPickerProps> = ({ layout, preview, onChange }) => {
+  const lastRow = preview.firstRow + preview.rows.length - 1;
+  const isHeader = (rowNumber: number) => rowNumber >= layout.headerRow && rowNumber < layout.headerRow + layout.headerRowCount;
+
+  return (
+    <div className="mt-2 ml-7 space-y-2">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+        <label className="flex items-center gap-1">
+          Encabezados en la fila
+          <input
+            type="number"
+            min={1}
+            className="w-16 border border-slate-300 rounded px-1.5 py-0.5 font-mono"
+            value={layout.headerRow}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (value >= 1) onChange({ ...layout, headerRow: value, detected: false });
+            }}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            className="rounded text-blue-600 focus:ring-blue-500"
+            checked={layout.headerRowCount === 2}
+            onChange={(e) => onChange({ ...layout, headerRowCount: e.target.checked ? 2 : 1, detected: false })}
+          />
+          Encabezado en dos filas (celdas combinadas)
+        </label>
+        <span className={`px-1.5 py-0.5 rounded ${layout.detected ? 'bg-green-50 text-green-700' : 'bg-amber-50 text-amber-700'}`}>
+          {layout.detected ? 'Detectado automáticamente' : 'Ajustado manualmente'}
+        </span>
+      </div>
+      {preview.rows.length > 0 && (
+        <div className="border border-slate-200 rounded overflow-x-auto">
+          <table className="text-[11px] text-left whitespace-nowrap">
+            <tbody className="divide-y divide-slate-100">
+              {preview.rows.map((cells, index) => {
+                const rowNumber = preview.firstRow + index;
+                return (
+                  <tr
+                    key={rowNumber}
+                    onClick={() => onChange({ ...layout, headerRow: rowNumber, detected: false })}
+                    className={`cursor-pointer ${isHeader(rowNumber) ? 'bg-blue-50 font-semibold text-blue-800' : rowNumber < layout.headerRow ? 'text-slate-300' : 'text-slate-600 hover:bg-slate-50'}`}
+                    title="Usar esta fila como encabezado"
+                  >
+                    <td className="px-2 py-0.5 font-mono text-slate-400 bg-slate-50">{rowNumber}</td>
+                    {cells.map((cell, c) => (
+                      <td key={c} className="px-2 py-0.5 max-w-[10rem] truncate">{cell}</td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {layout.headerRow > lastRow && (
+        <p className="text-xs text-slate-500">La fila elegida está fuera de la vista previa.</p>
+      )}
+      <p className="text-xs text-slate-500">Las filas de Total y Subtotal se ignoran al procesar.</p>
+    </div>
+  );
+};
+
+export default SheetLayoutPicker;
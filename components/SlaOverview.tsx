@@ -0,0 +1,69 @@
+import React from 'react';
+import { GlobalStats, SlaSettings } from '../types';
+import { getWorkshopSla, SLA_COLORS, SLA_LABELS } from '../utils/slaTargets';
+import { BellRing } from 'lucide-react';
+
+interface SlaOverviewProps {
+  stats: GlobalStats;
+  settings: SlaSettings;
+}
+
+const SlaOverview: React.FC<SlaOverviewProps> = ({ stats, settings }) => {
+  // The per-workshop chart lives in the "Cumplimiento por Taller" card; this adds the alert list and chips
+  const rows = getWorkshopSla(stats, settings).map(({ workshop, target, gap, level }) => ({
+    name: workshop.name, complianceRate: workshop.complianceRate, target, gap, level
+  }));
+  const alerts = rows.filter(r => r.level !== 'green').sort((a, b) => a.gap - b.gap);
+  const criticalCount = alerts.filter(r => r.level === 'red').length;
+  const warningCount = alerts.length - criticalCount;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden flex flex-col">
+        <div className="p-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <BellRing size={18} className="text-red-500" /> Alertas
+          </h3>
+          <span className="text-xs text-slate-500">
+            <span style={{ color: SLA_COLORS.red }}>{criticalCount} crítico(s)</span> · <span style={{ color: SLA_COLORS.yellow }}>{warningCount} en alerta</span>
+          </span>
+        </div>
+        <div className="overflow-auto max-h-80 divide-y divide-slate-100">
+          {alerts.map(alert => (
+            <div key={alert.name} className="px-4 py-2 flex items-center justify-between text-sm">
+              <div className="flex items-center gap-2">
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: SLA_COLORS[alert.level] }}></span>
+                <span className="font-medium text-slate-700">{alert.name}</span>
+              </div>
+              <div className="text-right">
+                <div className="font-semibold" style={{ color: SLA_COLORS[alert.level] }}>{alert.complianceRate}%</div>
+                <div className="text-xs text-slate-400">Meta {alert.target}% ({alert.gap.toFixed(2)} pp) · {SLA_LABELS[alert.level]}</div>
+              </div>
+            </div>
+          ))}
+          {alerts.length === 0 && (
+            <p className="px-4 py-6 text-center text-sm text-green-600">Todos los talleres cumplen su meta.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-slate-100 p-4">
+        <h3 className="font-bold text-slate-800 mb-3">Estado por taller</h3>
+        <div className="flex flex-wrap gap-2">
+          {rows.map(row => (
+            <span
+              key={row.name}
+              className="inline-flex items-center gap-1.5 px-2 py-1 rounded-full border border-slate-200 text-xs text-slate-700"
+              title={`${SLA_LABELS[row.level]} · Meta ${row.target}%`}
+            >
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: SLA_COLORS[row.level] }}></span>
+              {row.name}: <strong>{row.complianceRate}%</strong>
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SlaOverview;
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { SlaSettings, SlaTarget } from '../types';
+import { X, Target, Trash2, RotateCcw } from 'lucide-react';
+import { DEFAULT_SLA_SETTINGS } from '../utils/slaTargets';
+
+interface SlaSettingsModalProps {
+  settings: SlaSettings;
+  workshops: string[];
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (settings: SlaSettings) => void;
+}
+
+const clampPercent = (value: string) => Math.min(100, Math.max(0, parseFloat(value) || 0));
+
+const SlaSettingsModal: React.FC<SlaSettingsModalProps> = ({ settings, workshops, isOpen, onClose, onSave }) => {
+  const [draft, setDraft] = useState<SlaSettings>(settings);
+
+  // Reset the draft every time the panel is opened
+  useEffect(() => {
+    if (isOpen) setDraft(settings);
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const isValidTarget = (t: SlaTarget) => t.warning <= t.target;
+  const allValid = isValidTarget(draft.global) && Object.values(draft.overrides).every(isValidTarget);
+
+  const setOverride = (workshop: string, target: SlaTarget | null) => {
+    const overrides = { ...draft.overrides };
+    if (target) overrides[workshop] = target;
+    else delete overrides[workshop];
+    setDraft({ ...draft, overrides });
+  };
+
+  const renderTargetInputs = (target: SlaTarget, onChange: (t: SlaTarget) => void) => (
+    <>
+      <input
+        type="number"
+        min={0}
+        max={100}
+        className="w-20 text-sm border border-slate-300 rounded-md px-2 py-1 text-right"
+        value={target.target}
+        onChange={(e) => onChange({ ...target, target: clampPercent(e.target.value) })}
+      />
+      <input
+        type="number"
+        min={0}
+        max={100}
+        className={`w-20 text-sm border rounded-md px-2 py-1 text-right ${isValidTarget(target) ? 'border-slate-300' : 'border-red-400 bg-red-50'}`}
+        value={target.warning}
+        onChange={(e) => onChange({ ...target, warning: clampPercent(e.target.value) })}
+      />
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden m-4 border border-slate-200">
+
+        {/* Header */}
+        <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+                <Target size={20} />
+            </div>
+            <div>
+                <h3 className="text-lg font-bold text-slate-800">Metas de Cumplimiento</h3>
+                <p className="text-xs text-slate-500">Verde ≥ meta · Amarillo ≥ umbral de alerta · Rojo por debajo</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition-colors p-1 hover:bg-slate-200 rounded-full"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+            <div className="flex items-center gap-3 p-3 bg-slate-50 rounded-lg border border-slate-200">
+                <span className="text-sm font-semibold text-slate-700 flex-1">Meta global</span>
+                <span className="text-xs text-slate-500">Meta % / Alerta %</span>
+                {renderTargetInputs(draft.global, (t) => setDraft({ ...draft, global: t }))}
+            </div>
+
+            <div>
+                <h4 className="font-semibold text-slate-800 text-sm mb-2">Metas por Taller</h4>
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-slate-100">
+                        <tr>
+                            <th className="px-3 py-2">Taller</th>
+                            <th className="px-3 py-2 text-right">Meta % / Alerta %</th>
+                            <th className="px-3 py-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {workshops.map(workshop => {
+                            const override = draft.overrides[workshop];
+                            return (
+                                <tr key={workshop}>
+                                    <td className="px-3 py-2">{workshop}</td>
+                                    <td className="px-3 py-2">
+                                        <div className="flex justify-end gap-2">
+                                            {override ? (
+                                                renderTargetInputs(override, (t) => setOverride(workshop, t))
+                                            ) : (
+                                                <button
+                                                    onClick={() => setOverride(workshop, { ...draft.global })}
+                                                    className="text-xs text-blue-600 hover:text-blue-800"
+                                                >
+                                                    Usa meta global ({draft.global.target}%) — personalizar
+                                                </button>
+                                            )}
+                                        </div>
+                                    </td>
+                                    <td className="px-3 py-2 text-right">
+                                        {override && (
+                                            <button
+                                                onClick={() => setOverride(workshop, null)}
+                                                className="text-slate-400 hover:text-red-600 p-1"
+                                                title="Volver a la meta global"
+                                            >
+                                                <Trash2 size={14} />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            {!allValid && (
+                <p className="text-xs text-red-500">El umbral de alerta no puede ser mayor que la meta.</p>
+            )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-200 flex justify-between items-center">
+            <button
+                onClick={() => setDraft(DEFAULT_SLA_SETTINGS)}
+                className="flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700"
+            >
+                <RotateCcw size={14} /> Restaurar predeterminados
+            </button>
+            <div className="flex gap-2">
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800"
+                >
+                    Cancelar
+                </button>
+                <button
+                    onClick={() => { onSave(draft); onClose(); }}
+                    disabled={!allValid}
+                    className="px-4 py-2 bg-slate-800 text-white text-sm font-medium rounded-lg hover:bg-slate-700 transition-colors disabled:opacity-50"
+                >
+                    Guardar
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SlaSettingsModal;
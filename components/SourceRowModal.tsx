@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { ExcelRow, ParsedOT } from '../types';
+import { X, FileSearch, Loader2 } from 'lucide-react';
+import { getRowReference } from '../utils/excelHelpers';
+
+interface SourceRowModalProps {
+  ot: ParsedOT | null;
+  loadRow: (ot: ParsedOT) => Promise<ExcelRow | null>;
+  onClose: () => void;
+}
+
+const formatRawValue = (value: any) => {
+  if (value instanceof Date) return value.toLocaleString('es-PY');
+  return String(value);
+};
+
+// Cell values of the spreadsheet row a record was read from, as they were in the file
+const SourceRowModal: React.FC<SourceRowModalProps> = ({ ot, loadRow, onClose }) => {
+  // undefined while loading, null when the row could not be read
+  const [row, setRow] = useState<ExcelRow | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (!ot) return;
+    let active = true;
+    setRow(undefined);
+    loadRow(ot)
+      .then(result => { if (active) setRow(result); })
+      .catch(() => { if (active) setRow(null); });
+    return () => { active = false; };
+  }, [ot, loadRow]);
+
+  if (!ot) return null;
+  const entries = Object.entries(row || {});
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden m-4 border border-slate-200">
+
+        {/* Header */}
+        <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+                <FileSearch size={20} />
+            </div>
+            <div>
+                <h3 className="text-lg font-bold text-slate-800">Fila Original · OT {ot.id}</h3>
+                <p className="text-xs text-slate-500">{getRowReference(ot)}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition-colors p-1 hover:bg-slate-200 rounded-full"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 max-h-[60vh] overflow-y-auto">
+            {row === undefined ? (
+                <p className="text-sm text-slate-500 flex items-center gap-2">
+                    <Loader2 size={16} className="text-blue-600 animate-spin" /> Leyendo la fila del archivo...
+                </p>
+            ) : entries.length === 0 ? (
+                <p className="text-sm text-slate-500 italic">No se pudieron leer los valores originales de esta fila.</p>
+            ) : (
+                <table className="w-full text-sm text-left">
+                    <tbody className="divide-y divide-slate-100">
+                        {entries.map(([column, value]) => (
+                            <tr key={column}>
+                                <td className="py-1.5 pr-4 text-xs font-medium text-slate-500 align-top">{column}</td>
+                                <td className="py-1.5 font-mono text-xs text-slate-800 break-all">{formatRawValue(value)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourceRowModal;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { DelimitedTextOptions, TextEncoding } from '../types';
+import { DELIMITER_LABELS, ENCODING_LABELS } from '../utils/delimitedText';
+import { NUMBER_FORMAT_LABELS } from '../utils/currency';
+
+interface TextImportOptionsProps {
+  options: DelimitedTextOptions;
+  onChange: (options: DelimitedTextOptions) => void;
+}
+
+const TextImportOptions: React.FC<TextImportOptionsProps> = ({ options, onChange }) => {
+  const selectClass = 'text-xs border border-slate-300 rounded px-1.5 py-1 bg-white';
+
+  return (
+    <div className="mb-2 p-2 bg-slate-50 border border-slate-200 rounded-lg flex flex-wrap items-center gap-3 text-xs text-slate-600">
+      <label className="flex items-center gap-1">
+        Separador
+        <select
+          className={selectClass}
+          value={options.delimiter}
+          onChange={(e) => onChange({ ...options, delimiter: e.target.value })}
+        >
+          {Object.entries(DELIMITER_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        Codificación
+        <select
+          className={selectClass}
+          value={options.encoding}
+          onChange={(e) => onChange({ ...options, encoding: e.target.value as TextEncoding })}
+        >
+          {(Object.keys(ENCODING_LABELS) as TextEncoding[]).map(value => <option key={value} value={value}>{ENCODING_LABELS[value]}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        Números
+        <select
+          className={selectClass}
+          value={options.numberFormat}
+          onChange={(e) => onChange({ ...options, numberFormat: e.target.value as DelimitedTextOptions['numberFormat'] })}
+        >
+          <option value="py">{NUMBER_FORMAT_LABELS.py}</option>
+          <option value="us">{NUMBER_FORMAT_LABELS.us}</option>
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default TextImportOptions;
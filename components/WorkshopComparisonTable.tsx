@@ -0,0 +1,79 @@
+import React from 'react';
+import { GlobalStats, WorkshopStats } from '../types';
+import DeltaBadge from './DeltaBadge';
+import { GitCompare } from 'lucide-react';
+
+interface WorkshopComparisonTableProps {
+  current: GlobalStats;
+  previous: GlobalStats;
+  currentAmounts: Record<string, number>; // Financial amount per workshop (all rows)
+  previousAmounts: Record<string, number>;
+  currentLabel: string;
+  previousLabel: string;
+  formatCurrency: (amount: number) => string;
+}
+
+const WorkshopComparisonTable: React.FC<WorkshopComparisonTableProps> = ({
+  current, previous, currentAmounts, previousAmounts, currentLabel, previousLabel, formatCurrency
+}) => {
+  const previousByName = new Map<string, WorkshopStats>(previous.workshops.map(w => [w.name, w]));
+  const names = Array.from(new Set([...current.workshops.map(w => w.name), ...previous.workshops.map(w => w.name)]));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2">
+          <GitCompare size={18} /> Comparativo por Taller
+        </h3>
+        <span className="text-xs text-slate-500">{currentLabel} vs. {previousLabel}</span>
+      </div>
+      <div className="overflow-auto max-h-96">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-100 sticky top-0 z-10">
+            <tr>
+              <th className="px-4 py-2">Taller</th>
+              <th className="px-4 py-2 text-right">% Cumpl.</th>
+              <th className="px-4 py-2 text-right text-xs uppercase text-slate-500">Anterior</th>
+              <th className="px-4 py-2 text-right">Retrasos</th>
+              <th className="px-4 py-2 text-right text-xs uppercase text-slate-500">Anterior</th>
+              <th className="px-4 py-2 text-right">Importe</th>
+              <th className="px-4 py-2 text-right text-xs uppercase text-slate-500">Anterior</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {names.map(name => {
+              const cur = current.workshops.find(w => w.name === name);
+              const prev = previousByName.get(name);
+              const curRate = cur?.complianceRate ?? 0;
+              const prevRate = prev?.complianceRate ?? 0;
+              const curAmount = currentAmounts[name] || 0;
+              const prevAmount = previousAmounts[name] || 0;
+              return (
+                <tr key={name} className="hover:bg-slate-50">
+                  <td className="px-4 py-2 font-medium">{name}</td>
+                  <td className="px-4 py-2 text-right">
+                    <div>{cur ? `${curRate}%` : '-'}</div>
+                    {cur && prev && <DeltaBadge delta={curRate - prevRate} higherIsBetter format={(v) => `${v.toFixed(2)} pp`} />}
+                  </td>
+                  <td className="px-4 py-2 text-right text-slate-500">{prev ? `${prevRate}%` : '-'}</td>
+                  <td className="px-4 py-2 text-right">
+                    <div>{cur?.late ?? 0}</div>
+                    <DeltaBadge delta={(cur?.late ?? 0) - (prev?.late ?? 0)} higherIsBetter={false} />
+                  </td>
+                  <td className="px-4 py-2 text-right text-slate-500">{prev?.late ?? 0}</td>
+                  <td className="px-4 py-2 text-right font-mono text-slate-700">
+                    <div>{formatCurrency(curAmount)}</div>
+                    <DeltaBadge delta={curAmount - prevAmount} higherIsBetter format={formatCurrency} />
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono text-slate-500">{formatCurrency(prevAmount)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default WorkshopComparisonTable;
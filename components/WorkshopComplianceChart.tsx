@@ -0,0 +1,93 @@
+import React from 'react';
+import { ComposedChart, Bar, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { GlobalStats, OTStatus, SlaLevel, SlaSettings } from '../types';
+import { getWorkshopSla, SLA_COLORS, SLA_LABELS } from '../utils/slaTargets';
+import { STATUS_LABELS } from '../utils/statusClassifier';
+
+interface WorkshopComplianceChartProps {
+  stats: GlobalStats;
+  settings: SlaSettings;
+}
+
+interface ChartRow {
+  name: string;
+  complianceRate: number;
+  target: number;
+  level: SlaLevel;
+  counts: Record<OTStatus, number>;
+}
+
+const STATUS_ORDER: OTStatus[] = ['onTime', 'late', 'pendingOverdue', 'pendingOnTrack', 'noDate'];
+
+// Short horizontal tick at the workshop's own target, so overrides show next to their bar
+const TargetMarker = (props: { cx?: number; cy?: number }) => {
+  const { cx, cy } = props;
+  if (cx === undefined || cy === undefined) return <g />;
+  return <line x1={cx - 14} x2={cx + 14} y1={cy} y2={cy} stroke="#0f172a" strokeWidth={2} strokeDasharray="4 2" />;
+};
+
+const ChartTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: ChartRow }[] }) => {
+  if (!active || !payload || payload.length === 0) return null;
+  const row = payload[0].payload;
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg shadow-md px-3 py-2 text-xs space-y-0.5">
+      <p className="font-semibold text-slate-800">{row.name}</p>
+      <p style={{ color: SLA_COLORS[row.level] }}>
+        Cumplimiento {row.complianceRate}% · Meta {row.target}% · {SLA_LABELS[row.level]}
+      </p>
+      {STATUS_ORDER.map(status => (
+        <p key={status} className="text-slate-500">{STATUS_LABELS[status]}: {row.counts[status]}</p>
+      ))}
+    </div>
+  );
+};
+
+// Compliance rate per workshop, each bar colored by its SLA state against its own target
+const WorkshopComplianceChart: React.FC<WorkshopComplianceChartProps> = ({ stats, settings }) => {
+  const rows: ChartRow[] = getWorkshopSla(stats, settings).map(({ workshop, target, level }) => ({
+    name: workshop.name,
+    complianceRate: workshop.complianceRate,
+    target,
+    level,
+    counts: {
+      onTime: workshop.onTime,
+      late: workshop.late,
+      pendingOverdue: workshop.pendingOverdue,
+      pendingOnTrack: workshop.pendingOnTrack,
+      noDate: workshop.noDate
+    }
+  }));
+
+  return (
+    <>
+      <div className="h-72 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={rows}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+            <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 12}} />
+            <YAxis domain={[0, 100]} unit="%" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 12}} />
+            <Tooltip cursor={{fill: '#f1f5f9'}} content={<ChartTooltip />} />
+            <Bar dataKey="complianceRate" name="Cumplimiento" radius={[4, 4, 0, 0]}>
+              {rows.map(row => <Cell key={row.name} fill={SLA_COLORS[row.level]} />)}
+            </Bar>
+            <Scatter dataKey="target" name="Meta" shape={<TargetMarker />} isAnimationActive={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-4 mt-2 text-xs text-slate-600">
+        {(Object.keys(SLA_LABELS) as SlaLevel[]).map(level => (
+          <span key={level} className="flex items-center gap-1.5">
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: SLA_COLORS[level] }}></span>
+            {SLA_LABELS[level]}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5">
+          <span className="w-4 border-t-2 border-dashed border-slate-900"></span>
+          Meta del taller
+        </span>
+      </div>
+    </>
+  );
+};
+
+export default WorkshopComplianceChart;
@@ -1,3 +1,5 @@
+import type { WorkBook } from 'xlsx';
+
 export interface ExcelRow {
   [key: string]: any;
 }
@@ -12,11 +14,28 @@ export interface ColumnMapping {
   realDeliveryDate: string; // Fecha Entrega Real
   billingDate?: string; // Fecha de facturacion (optional)
   amount: string; // Columna de Importe/Total
+  numberFormat?: NumberFormat; // Separadores del importe (por defecto 'auto')
+  amountCurrency?: string; // Moneda del importe cuando no hay columna de moneda (por defecto PYG)
+  currencyColumn?: string; // Columna con la moneda de cada fila (Opcional)
+  dateFormats?: Record<string, DateFormat>; // Formato por columna de fecha (por defecto 'auto')
   otType: string; // Tipo de OT (para detectar Reclamos)
   invoiceNumber?: string; // Numero de Factura (para unicidad en financiero)
   additionalFilters: string[]; // Fields to add as filters
 }
 
+export interface InternalClient {
+  code: string; // Client code as it appears in the Excel (e.g. C0008157)
+  label: string; // Friendly name shown in the audit and settings
+}
+
+export interface MappingProfile {
+  name: string;
+  fingerprint: string; // Normalized, sorted headers of the sheet the profile was saved from
+  headers: string[];
+  mapping: ColumnMapping;
+  updatedAt: string; // ISO timestamp
+}
+
 export interface ParsedOT {
   id: string; // OT Number
   invoiceId?: string; // Invoice Number
@@ -26,22 +45,79 @@ export interface ParsedOT {
   secondEstimatedDate: Date | null; // Nueva lógica: Fecha reprogramada
   realDate: Date | null;
   billingDate: Date | null;
-  status: string;
+  status: StatusResult; // Computed by classifyOT
   clientCode: string;
   clientName?: string;
   isInternalClient: boolean; // Flag for internal clients (C0008157, etc.)
-  amount: number; // Importe
+  amount: number; // Importe (en moneda de reporte una vez convertido, ver convertAmounts)
+  originalAmount: number; // Importe tal como figura en el archivo
+  currency: string; // ISO 4217 code of originalAmount
   otType: string; // Tipo (Normal, Reclamo, etc.)
   customValues: Record<string, string>;
+  sourceFile: string; // Uploaded file the row came from
+  sourceSheet: string; // Sheet within that file
+  sourceRow: number; // 1-based sheet row, as Excel numbers it
+}
+
+// Where the column headers sit in a sheet
+export interface SheetLayout {
+  headerRow: number; // 1-based sheet row of the (first) header row
+  headerRowCount: 1 | 2; // Two when the headers are split over merged rows
+  detected: boolean; // False once the user overrides it
+}
+
+// First rows of a sheet as text
+export interface SheetPreview {
+  firstRow: number; // 1-based sheet row of rows[0]
+  rows: string[][];
+}
+
+export interface SheetRef {
+  fileName: string;
+  sheetName: string;
+  layout?: SheetLayout; // Detected on the fly when missing
+}
+
+// First rows of the selected sheets, used by the column mapper to preview how each field is read
+export interface MappingSample {
+  headers: string[];
+  rows: ExcelRow[];
+  totalRows: number; // Data rows across the selected sheets
+  subtotalRows: number; // Total/Subtotal rows left out (the OT column is not mapped yet, so only all-number rows)
+  numberFormat?: Exclude<NumberFormat, 'auto'>; // Decimal separator when every sheet is a delimited text file
+}
+
+export interface SheetSource extends SheetRef {
+  workbook: WorkBook;
+  numberFormat?: Exclude<NumberFormat, 'auto'>; // Set for delimited text files
+}
+
+export interface SourceBreakdown {
+  fileName: string;
+  sheetName: string;
+  totalRows: number;
+  emptyRows: number;
+  subtotalRows: number; // Total/subtotal rows ignored
+  headerRow: number; // 1-based sheet row the headers were read from
+  headerRowCount: 1 | 2;
+  duplicatesRemoved: number; // Rows from this source discarded for compliance
+  uniqueOTs: number; // Rows from this source kept as the unique OT
 }
 
 export interface ProcessingReport {
   totalRows: number;
   emptyRows: number;
+  subtotalRows: number; // Total/subtotal rows ignored
   duplicatesRemovedForCompliance: number; // Duplicates removed to get unique OTs
   removedOtIds: string[]; // List of specific OTs removed as duplicates
   internalClientsCount: number; // In the final dataset
   internalClientsByCode: Record<string, number>; // Breakdown
+  sources: SourceBreakdown[]; // One entry per file/sheet processed
+  dedupStrategy: DedupStrategy; // Strategy used to resolve duplicate OTs
+  dedupResolutions: DedupResolution[]; // One entry per OT that had duplicates
+  issues: DataQualityIssue[]; // Row-level validation findings
+  dateColumns: DateColumnReport[]; // How each mapped date column was read
+  summary: GlobalStats; // Stats of the unique OTs when the data was processed
 }
 
 export interface ProcessResult {
@@ -50,14 +126,26 @@ export interface ProcessResult {
     report: ProcessingReport;
 }
 
+export interface DelayStats {
+  count: number; // Late OTs measured
+  average: number; // Days
+  median: number;
+  p90: number;
+  max: number;
+}
+
 export interface WorkshopStats {
   name: string;
   totalOTs: number;
   onTime: number;
   late: number;
-  pending: number;
+  pending: number; // pendingOverdue + pendingOnTrack + noDate
+  pendingOverdue: number; // Not delivered, target date already passed
+  pendingOnTrack: number; // Not delivered, still within the target date
+  noDate: number; // No target date to evaluate
   complianceRate: number; // Percentage
   totalAmount: number;
+  delay: DelayStats; // Days late among late OTs
 }
 
 export interface GlobalStats {
@@ -65,7 +153,252 @@ export interface GlobalStats {
   totalOnTime: number;
   totalLate: number;
   totalPending: number;
+  totalPendingOverdue: number;
+  totalPendingOnTrack: number;
+  totalNoDate: number;
   averageCompliance: number;
   totalAmount: number; // Sum of amounts
+  delay: DelayStats;
   workshops: WorkshopStats[];
-}
\ No newline at end of file
+}
+
+// Whole days, both ends included
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export type ComparisonMode = 'none' | 'previous' | 'lastYear' | 'ytd';
+
+// Which date of an OT decides the month/period it belongs to
+export type PeriodDateField = 'billing' | 'promised' | 'real';
+
+// How the period filter is chosen: year/month selectors, a preset relative to the reference date or explicit dates
+export type PeriodPreset = 'calendar' | 'last3Months' | 'last12Months' | 'ytd' | 'custom';
+
+// Selected values of a multi-select filter; no values means no restriction
+export interface ValueFilter {
+  mode: 'include' | 'exclude';
+  values: string[];
+}
+
+export interface DashboardFilters {
+  dateField: PeriodDateField; // Date that decides whether an OT falls in the period
+  preset: PeriodPreset;
+  year: string; // 'all' or a year, for the 'calendar' preset
+  month: string; // 'all' or a 0-based month, for the 'calendar' preset
+  from: string; // YYYY-MM-DD, for the 'custom' preset
+  to: string;
+  includeUndated: boolean; // Keep OTs without the chosen date when a period is set
+  workshops: ValueFilter;
+  customFields: Record<string, ValueFilter>; // By additional filter field
+}
+
+export type DashboardTab = 'compliance' | 'financial';
+
+// Everything a saved view or a shared link restores
+export interface DashboardView {
+  filters: DashboardFilters;
+  activeTab: DashboardTab;
+  comparisonMode: ComparisonMode;
+}
+
+export interface SavedView {
+  name: string;
+  view: DashboardView;
+  updatedAt: string; // ISO timestamp
+}
+
+// What the dashboard asks the worker to recompute whenever a setting or filter changes
+export interface AnalysisQuery {
+  statusOptions: StatusOptions;
+  currencySettings: CurrencySettings;
+  claimCategories: ClaimCategory[];
+  internalClients: InternalClient[];
+  filters: DashboardFilters;
+  range: DateRange | null; // Current period, null for all dates
+  previousRange: DateRange | null; // Comparison period, when comparing
+}
+
+// Rows re-classified with the query's status options and converted to its reporting currency
+export interface ClassifiedDataset {
+  uniqueOTs: ParsedOT[];
+  allRows: ParsedOT[];
+  claimCategoryIndexes: number[]; // Per allRows row, index into the query's claim categories or -1
+}
+
+// Subsets are indexes into the classified arrays, so only the classification itself crosses threads
+export interface DashboardAnalysis {
+  classificationId: number; // Changes every time the worker re-classifies
+  classified?: ClassifiedDataset; // Sent only when the dashboard does not hold this classification yet
+  compliance: number[]; // uniqueOTs
+  trend: number[]; // uniqueOTs, every filter except the period
+  financial: number[]; // allRows
+  previousFinancial: number[]; // allRows
+  claims: number[]; // allRows
+  undatedExcluded: number; // OTs left out only because they lack the period date
+  complianceStats: GlobalStats;
+  previousComplianceStats: GlobalStats;
+  delayHistogram: { label: string; count: number }[];
+}
+
+export interface MonthlyTrendPoint {
+  key: string; // YYYY-MM, sortable
+  label: string;
+  stats: GlobalStats;
+}
+
+export type OTStatus = 'onTime' | 'late' | 'pendingOverdue' | 'pendingOnTrack' | 'noDate';
+
+export interface Holiday {
+  date: string; // MM-DD (every year) or YYYY-MM-DD (single date)
+  name: string;
+}
+
+export interface CalendarSettings {
+  graceDays: number; // Lateness up to this many days still counts as on time
+  useBusinessDays: boolean; // Count lateness skipping weekends and holidays
+  includeHolyWeek: boolean; // Holy Thursday and Good Friday, computed from Easter
+  holidays: Holiday[];
+}
+
+export interface StatusResult {
+  status: OTStatus;
+  label: string; // Spanish label shown in badges and exports
+  targetDate: Date | null; // Date the delivery was measured against
+  targetSource: 'secondEstimatedDate' | 'estimatedDate' | null;
+  dayOffset: number | null; // Negative = early / days remaining, positive = late / overdue
+  daysLate: number | null; // Only for status 'late'
+  reason: string; // Human-readable explanation
+}
+
+export interface StatusOptions {
+  asOfDate: Date; // Reference date to decide whether an undelivered OT is overdue
+  countOverdueAsLate: boolean; // Overdue pending OTs are counted as late
+  calendar: CalendarSettings;
+}
+
+export interface SlaTarget {
+  target: number; // Green at or above this compliance %
+  warning: number; // Yellow at or above this %, red below
+}
+
+export interface SlaSettings {
+  global: SlaTarget;
+  overrides: Record<string, SlaTarget>; // Per workshop name
+}
+
+export type SlaLevel = 'green' | 'yellow' | 'red';
+
+export type ClaimConditionField = 'clientCode' | 'otType' | 'folio' | 'custom';
+export type ClaimConditionOperator = 'equals' | 'contains' | 'startsWith' | 'regex';
+
+export interface ClaimCondition {
+  field: ClaimConditionField;
+  customField?: string; // customValues key when field is 'custom'
+  operator: ClaimConditionOperator;
+  value: string; // Compared case-insensitively
+}
+
+export interface ClaimCategory {
+  id: string;
+  name: string;
+  combinator: 'AND' | 'OR';
+  conditions: ClaimCondition[];
+}
+
+// Tie-break criteria used to choose which duplicate row represents an OT
+export type DedupCriterion =
+  | 'externalClient' // External clients over internal ones
+  | 'hasRealDate' // Rows with a delivery date
+  | 'latestBilling'
+  | 'earliestPromised'
+  | 'largestAmount'
+  | 'hasSecondPromised'
+  | 'preferredOtType';
+
+export interface DedupStrategy {
+  mode: 'select' | 'aggregate'; // Keep one row, or merge every duplicate into one OT
+  criteria: DedupCriterion[]; // Ordered; the first seen row wins when all criteria tie
+  preferredOtType: string; // Used by 'preferredOtType' (case-insensitive contains)
+}
+
+export interface DedupResolution {
+  otId: string;
+  rows: number; // Rows sharing this OT number
+  outcome: string; // Human readable explanation of how it was resolved
+  kept: string; // Row reference of the record kept, or the base of a merge
+  discarded: { reference: string; reason: string }[];
+}
+
+export type DataQualityIssueType =
+  | 'unparsedDate' // Date cell with a value that could not be read
+  | 'deliveryBeforePromise' // Real delivery more than a year before the promised date
+  | 'futureDelivery' // Real delivery after the processing date
+  | 'nonPositiveAmount'
+  | 'missingWorkshop'
+  | 'partialAmount'; // Amount text that was only partly understood
+
+export interface DataQualityIssue {
+  type: DataQualityIssueType;
+  sourceFile: string;
+  sourceSheet: string;
+  rowNumber: number; // 1-based row in the sheet, header included
+  field: string; // Source column name
+  otId: string;
+  value: string; // Raw cell content
+  message: string;
+}
+
+// 'py': 1.234.567,89 / 'us': 1,234,567.89 / 'auto': detected per column
+export type NumberFormat = 'auto' | 'py' | 'us';
+
+export interface ExchangeRate {
+  month: string; // YYYY-MM
+  currency: string; // ISO 4217
+  rate: number; // Guaraníes per unit of currency
+}
+
+export interface CurrencySettings {
+  reportingCurrency: string;
+  rates: ExchangeRate[];
+}
+
+// Order of day and month in text dates; year-first dates are always read as YYYY-MM-DD
+export type DateFormat = 'auto' | 'dmy' | 'mdy';
+
+export interface DateColumnReport {
+  column: string;
+  configured: DateFormat;
+  format: Exclude<DateFormat, 'auto'>; // Format actually applied
+  ambiguous: number; // Values readable either way (e.g. 03/04/2025)
+  inconsistent: boolean; // Mixed DD/MM and MM/DD evidence in the same column
+  unparsed: number; // Non-empty cells that could not be read
+  examples: string[];
+}
+
+export type TextEncoding = 'utf-8' | 'windows-1252' | 'utf-16le';
+
+// How a CSV/TSV/TXT file is read; detected on upload and adjustable in the preview
+export interface DelimitedTextOptions {
+  delimiter: string;
+  encoding: TextEncoding;
+  numberFormat: Exclude<NumberFormat, 'auto'>; // Decimal separator of the numbers in the file
+}
+
+export type ProcessingStage = 'reading' | 'parsing' | 'deduplicating' | 'stats';
+
+export interface ProcessingProgress {
+  stage: ProcessingStage;
+  done: number;
+  total: number;
+  detail?: string; // e.g. the file being read
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+// Per-table preferences of the data grid, kept between sessions
+export interface GridSettings {
+  visibleColumns: string[] | null; // Column ids; null shows the table's defaults
+  sort: { columnId: string; direction: SortDirection } | null;
+}
@@ -0,0 +1,144 @@
+import { CalendarSettings, Holiday } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const STORAGE_KEY = 'calendar-settings';
+
+// Paraguayan national holidays. Holy Thursday and Good Friday move every year and are
+// computed from Easter when includeHolyWeek is enabled.
+export const PARAGUAY_HOLIDAYS: Holiday[] = [
+  { date: '01-01', name: 'Año Nuevo' },
+  { date: '03-01', name: 'Día de los Héroes' },
+  { date: '05-01', name: 'Día del Trabajador' },
+  { date: '05-14', name: 'Independencia Nacional' },
+  { date: '05-15', name: 'Independencia Nacional' },
+  { date: '06-12', name: 'Paz del Chaco' },
+  { date: '08-15', name: 'Fundación de Asunción' },
+  { date: '09-29', name: 'Victoria de Boquerón' },
+  { date: '12-08', name: 'Virgen de Caacupé' },
+  { date: '12-25', name: 'Navidad' }
+];
+
+export const DEFAULT_CALENDAR_SETTINGS: CalendarSettings = {
+  graceDays: 0,
+  useBusinessDays: false,
+  includeHolyWeek: true,
+  holidays: PARAGUAY_HOLIDAYS
+};
+
+export const loadCalendarSettings = (): CalendarSettings => {
+  const stored = loadFromStorage<Partial<CalendarSettings>>(STORAGE_KEY, {});
+  return { ...DEFAULT_CALENDAR_SETTINGS, ...stored };
+};
+
+export const saveCalendarSettings = (settings: CalendarSettings): void => {
+  saveToStorage(STORAGE_KEY, settings);
+};
+
+// Recurring holidays use MM-DD, one-off holidays use YYYY-MM-DD
+export const isValidHolidayDate = (value: string): boolean => /^(\d{4}-)?\d{2}-\d{2}$/.test(value);
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Anonymous Gregorian algorithm
+const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+interface CompiledCalendar {
+  recurring: Set<string>; // MM-DD
+  fixed: Set<string>; // YYYY-MM-DD
+  holyWeekByYear: Map<number, Set<string>>;
+}
+
+// Settings objects are immutable in the app, so compiled lookups can be cached per object
+const compiledCache = new WeakMap<CalendarSettings, CompiledCalendar>();
+
+const compile = (settings: CalendarSettings): CompiledCalendar => {
+  let compiled = compiledCache.get(settings);
+  if (!compiled) {
+    compiled = { recurring: new Set(), fixed: new Set(), holyWeekByYear: new Map() };
+    settings.holidays.forEach(h => {
+      if (h.date.length === 5) compiled!.recurring.add(h.date);
+      else compiled!.fixed.add(h.date);
+    });
+    compiledCache.set(settings, compiled);
+  }
+  return compiled;
+};
+
+// Holy Thursday and Good Friday of the year, as YYYY-MM-DD
+const getHolyWeek = (compiled: CompiledCalendar, year: number): Set<string> => {
+  let days = compiled.holyWeekByYear.get(year);
+  if (!days) {
+    const easter = getEasterSunday(year);
+    days = new Set([-3, -2].map(offset => {
+      const d = new Date(easter);
+      d.setDate(d.getDate() + offset);
+      return `${year}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+    }));
+    compiled.holyWeekByYear.set(year, days);
+  }
+  return days;
+};
+
+const isWeekend = (dayOfWeek: number) => dayOfWeek === 0 || dayOfWeek === 6;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Holidays after `from` up to and including `to` that fall on a weekday, each counted once
+const countWeekdayHolidays = (from: Date, to: Date, settings: CalendarSettings): number => {
+  const compiled = compile(settings);
+  const dates = new Set<string>();
+  for (let year = from.getFullYear(); year <= to.getFullYear(); year++) {
+    compiled.recurring.forEach(monthDay => dates.add(`${year}-${monthDay}`));
+    if (settings.includeHolyWeek) getHolyWeek(compiled, year).forEach(date => dates.add(date));
+  }
+  compiled.fixed.forEach(date => dates.add(date));
+
+  let count = 0;
+  dates.forEach(key => {
+    const [year, month, day] = key.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    // Skips dates that do not exist in that year, e.g. a recurring 02-29
+    if (date.getMonth() !== month - 1) return;
+    if (date > from && date <= to && !isWeekend(date.getDay())) count++;
+  });
+  return count;
+};
+
+// Days elapsed after `from` up to and including `to` (both at midnight).
+// In business-day mode weekends and holidays are skipped; negative spans return 0.
+export const countDaysAfter = (from: Date, to: Date, settings: CalendarSettings): number => {
+  if (to <= from) return 0;
+  const days = Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+  if (!settings.useBusinessDays) return days;
+
+  // Every whole week has 5 weekdays; the remaining (at most 6) days are checked one by one
+  let weekdays = Math.floor(days / 7) * 5;
+  const firstDay = (from.getDay() + 1) % 7;
+  for (let i = 0; i < days % 7; i++) {
+    if (!isWeekend((firstDay + i) % 7)) weekdays++;
+  }
+  return weekdays - countWeekdayHolidays(from, to, settings);
+};
+
+export const describeCalendar = (settings: CalendarSettings): string => {
+  const unit = settings.useBusinessDays ? 'días hábiles' : 'días corridos';
+  return settings.graceDays > 0
+    ? `Tolerancia de ${settings.graceDays} ${unit}`
+    : `Sin tolerancia (${unit})`;
+};
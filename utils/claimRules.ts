@@ -0,0 +1,102 @@
+import { ClaimCategory, ClaimCondition, ClaimConditionField, ClaimConditionOperator, ParsedOT } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const STORAGE_KEY = 'claim-categories';
+
+// Original fixed rule: client C0008157 and an OT type containing "reclamo"
+export const DEFAULT_CLAIM_CATEGORIES: ClaimCategory[] = [
+  {
+    id: 'reclamos',
+    name: 'Reclamos',
+    combinator: 'AND',
+    conditions: [
+      { field: 'clientCode', operator: 'equals', value: 'C0008157' },
+      { field: 'otType', operator: 'contains', value: 'reclamo' }
+    ]
+  }
+];
+
+export const CLAIM_FIELD_LABELS: Record<ClaimConditionField, string> = {
+  clientCode: 'Código Cliente',
+  otType: 'Tipo OT',
+  folio: 'Folio',
+  custom: 'Campo adicional'
+};
+
+export const CLAIM_OPERATOR_LABELS: Record<ClaimConditionOperator, string> = {
+  equals: 'es igual a',
+  contains: 'contiene',
+  startsWith: 'comienza con',
+  regex: 'coincide con regex'
+};
+
+export const loadClaimCategories = (): ClaimCategory[] => {
+  const stored = loadFromStorage<ClaimCategory[]>(STORAGE_KEY, DEFAULT_CLAIM_CATEGORIES);
+  return Array.isArray(stored) ? stored : DEFAULT_CLAIM_CATEGORIES;
+};
+
+export const saveClaimCategories = (categories: ClaimCategory[]): void => {
+  saveToStorage(STORAGE_KEY, categories);
+};
+
+// Returns an error message for an invalid regex, or null when the pattern compiles
+export const validateRegex = (pattern: string): string | null => {
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Expresión inválida';
+  }
+};
+
+const regexCache = new Map<string, RegExp | null>();
+
+const getRegex = (pattern: string): RegExp | null => {
+  if (!regexCache.has(pattern)) {
+    regexCache.set(pattern, validateRegex(pattern) === null ? new RegExp(pattern, 'i') : null);
+  }
+  return regexCache.get(pattern)!;
+};
+
+const getFieldValue = (ot: ParsedOT, condition: ClaimCondition): string => {
+  switch (condition.field) {
+    case 'clientCode': return ot.clientCode;
+    case 'otType': return ot.otType;
+    case 'folio': return ot.folio;
+    case 'custom': return condition.customField ? ot.customValues[condition.customField] || '' : '';
+  }
+};
+
+const matchesCondition = (ot: ParsedOT, condition: ClaimCondition): boolean => {
+  const value = (getFieldValue(ot, condition) || '').trim().toLowerCase();
+  const expected = condition.value.trim().toLowerCase();
+  switch (condition.operator) {
+    case 'equals': return value === expected;
+    case 'contains': return expected !== '' && value.includes(expected);
+    case 'startsWith': return expected !== '' && value.startsWith(expected);
+    case 'regex': {
+      const regex = getRegex(condition.value);
+      return regex ? regex.test(value) : false;
+    }
+  }
+};
+
+export const matchesCategory = (ot: ParsedOT, category: ClaimCategory): boolean => {
+  if (category.conditions.length === 0) return false;
+  return category.combinator === 'AND'
+    ? category.conditions.every(c => matchesCondition(ot, c))
+    : category.conditions.some(c => matchesCondition(ot, c));
+};
+
+// First matching category, in the configured order; null when the row is not a claim
+export const getClaimCategory = (ot: ParsedOT, categories: ClaimCategory[]): ClaimCategory | null => {
+  return categories.find(category => matchesCategory(ot, category)) || null;
+};
+
+export const describeCategory = (category: ClaimCategory): string => {
+  const joiner = category.combinator === 'AND' ? ' y ' : ' o ';
+  return category.conditions.map(c => {
+    const field = c.field === 'custom' ? (c.customField || CLAIM_FIELD_LABELS.custom) : CLAIM_FIELD_LABELS[c.field];
+    return `${field} ${CLAIM_OPERATOR_LABELS[c.operator]} "${c.value}"`;
+  }).join(joiner);
+};
@@ -0,0 +1,195 @@
+import * as XLSX from 'xlsx';
+import { CurrencySettings, ExchangeRate, NumberFormat, ParsedOT } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const STORAGE_KEY = 'currency-settings';
+
+// Rates are expressed in guaraníes, so PYG is always 1
+export const BASE_CURRENCY = 'PYG';
+
+export const CURRENCIES = ['PYG', 'USD', 'BRL', 'ARS', 'EUR'];
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  reportingCurrency: BASE_CURRENCY,
+  rates: []
+};
+
+export const NUMBER_FORMAT_LABELS: Record<NumberFormat, string> = {
+  auto: 'Auto-detectar por columna',
+  py: 'Paraguayo (1.234.567,89)',
+  us: 'EE.UU. (1,234,567.89)'
+};
+
+export const loadCurrencySettings = (): CurrencySettings => {
+  const stored = loadFromStorage<Partial<CurrencySettings>>(STORAGE_KEY, {});
+  return {
+    reportingCurrency: stored.reportingCurrency || BASE_CURRENCY,
+    rates: Array.isArray(stored.rates) ? stored.rates : []
+  };
+};
+
+export const saveCurrencySettings = (settings: CurrencySettings): void => {
+  saveToStorage(STORAGE_KEY, settings);
+};
+
+export const formatCurrency = (amount: number, currency: string = BASE_CURRENCY): string => {
+  const formatted = amount.toLocaleString('es-PY', { style: 'currency', currency });
+  return currency === 'PYG' ? formatted.replace('PYG', 'Gs') : formatted;
+};
+
+// --- Number formats ---
+
+// Currency symbols and codes written next to an amount; longer tokens first so "US$" is not read as "$"
+const CURRENCY_TOKENS = /us\$|u\$s|r\$|gs\.?|₲|usd|pyg|brl|ars|eur|€|\$/gi;
+
+// Digits, separators and sign of an amount. A separator only counts between two digits,
+// so the dot of "Gs. 15000" or a trailing "15.000." is never taken for a decimal mark
+const toNumericText = (raw: string): string => raw
+  .replace(CURRENCY_TOKENS, '')
+  .replace(/[^0-9.,-]/g, '')
+  .replace(/(?<!\d)[.,]|[.,](?!\d)/g, '');
+
+// Reads a number written with the given separators, e.g. "Gs. 1.500.000" as 1500000 in the Paraguayan format.
+// `partial` flags text that had to be discarded, e.g. letters between digits or a leftover that is not a valid number
+export const parseLocaleAmount = (raw: any, format: Exclude<NumberFormat, 'auto'>): { value: number; partial: boolean } => {
+  if (typeof raw === 'number') return { value: raw, partial: false };
+  if (typeof raw !== 'string' || !raw.trim()) return { value: 0, partial: false };
+
+  const trimmed = raw.trim();
+  const [thousands, decimal] = format === 'py' ? ['.', ','] : [',', '.'];
+  const normalized = toNumericText(trimmed)
+    .split(thousands).join('')
+    .replace(decimal, '.');
+  const value = parseFloat(normalized);
+  return {
+    value: isNaN(value) ? 0 : value,
+    partial: !/^-?\d+(\.\d+)?$/.test(normalized) || /\d\s*[^\d.,\s]+\s*\d/.test(trimmed)
+  };
+};
+
+// Votes for one format per text value; ties and columns without evidence default to the Paraguayan format.
+// Currency tokens are ignored, so "Gs. 1.500.000" votes Paraguayan and "US$ 1,200.50" votes US
+export const detectNumberFormat = (values: any[]): Exclude<NumberFormat, 'auto'> => {
+  let py = 0;
+  let us = 0;
+  values.forEach(raw => {
+    if (typeof raw !== 'string') return;
+    const text = toNumericText(raw).replace('-', '');
+    const lastDot = text.lastIndexOf('.');
+    const lastComma = text.lastIndexOf(',');
+    if (lastDot !== -1 && lastComma !== -1) {
+      // The right-most separator is the decimal one
+      if (lastComma > lastDot) py++; else us++;
+    } else if (lastDot !== -1) {
+      // "1.234.567" or "1.234" read as thousands; "12.5" as a decimal point
+      if (text.indexOf('.') !== lastDot || text.length - lastDot - 1 === 3) py++; else us++;
+    } else if (lastComma !== -1) {
+      if (text.indexOf(',') !== lastComma || text.length - lastComma - 1 === 3) us++; else py++;
+    }
+  });
+  return us > py ? 'us' : 'py';
+};
+
+const CURRENCY_ALIASES: Record<string, string> = {
+  'gs': 'PYG', 'g': 'PYG', '₲': 'PYG', 'pyg': 'PYG', 'guarani': 'PYG', 'guaranies': 'PYG',
+  'usd': 'USD', 'us$': 'USD', 'u$s': 'USD', '$': 'USD', 'dolar': 'USD', 'dolares': 'USD',
+  'brl': 'BRL', 'r$': 'BRL', 'real': 'BRL', 'reales': 'BRL',
+  'ars': 'ARS', 'eur': 'EUR', '€': 'EUR'
+};
+
+// Normalizes the content of a currency column ("Gs.", "US$", "Dólares") to an ISO code
+export const normalizeCurrency = (raw: any, fallback: string): string => {
+  const text = String(raw ?? '').trim();
+  if (!text) return fallback;
+  const key = text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\.$/, '');
+  return CURRENCY_ALIASES[key] || text.toUpperCase();
+};
+
+// --- Exchange rates ---
+
+const toMonthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+// Date used to pick the monthly rate of a row
+const getRateDate = (ot: ParsedOT) => ot.billingDate || ot.realDate || ot.estimatedDate;
+
+// Rate of the month, else the closest earlier month, else the earliest later month
+export const findRate = (rates: ExchangeRate[], currency: string, month: string | null): number | null => {
+  if (currency === BASE_CURRENCY) return 1;
+  const candidates = rates
+    .filter(r => r.currency === currency && r.rate > 0)
+    .sort((a, b) => a.month.localeCompare(b.month));
+  if (candidates.length === 0) return null;
+  if (!month) return candidates[candidates.length - 1].rate;
+  const earlier = candidates.filter(r => r.month <= month);
+  return earlier.length > 0 ? earlier[earlier.length - 1].rate : candidates[0].rate;
+};
+
+// Converts every amount to the reporting currency; rows without a usable rate count as 0
+export const convertAmounts = (ots: ParsedOT[], settings: CurrencySettings): ParsedOT[] => {
+  return ots.map(ot => {
+    if (ot.currency === settings.reportingCurrency) {
+      return ot.amount === ot.originalAmount ? ot : { ...ot, amount: ot.originalAmount };
+    }
+    const date = getRateDate(ot);
+    const month = date ? toMonthKey(date) : null;
+    const rate = findRate(settings.rates, ot.currency, month);
+    const targetRate = findRate(settings.rates, settings.reportingCurrency, month);
+    const amount = rate !== null && targetRate !== null ? (ot.originalAmount * rate) / targetRate : 0;
+    return { ...ot, amount };
+  });
+};
+
+// Currencies present in the data that cannot be converted to the reporting currency
+export const getMissingRateCurrencies = (ots: ParsedOT[], settings: CurrencySettings): string[] => {
+  const currencies = new Set(ots.map(ot => ot.currency));
+  currencies.add(settings.reportingCurrency);
+  return Array.from(currencies).filter(c => findRate(settings.rates, c, null) === null);
+};
+
+const MONTH_HEADERS = ['mes', 'month', 'periodo', 'período', 'fecha'];
+const CURRENCY_HEADERS = ['moneda', 'currency', 'divisa'];
+const RATE_HEADERS = ['cotizacion', 'cotización', 'tipo de cambio', 'rate', 'tasa'];
+
+const parseMonth = (raw: any): string | null => {
+  if (raw instanceof Date && !isNaN(raw.getTime())) return toMonthKey(raw);
+  const text = String(raw ?? '').trim();
+  const iso = text.match(/^(\d{4})[-/](\d{1,2})/);
+  if (iso) return `${iso[1]}-${iso[2].padStart(2, '0')}`;
+  const latam = text.match(/^(\d{1,2})[-/](\d{4})$/);
+  if (latam) return `${latam[2]}-${latam[1].padStart(2, '0')}`;
+  return null;
+};
+
+// Reads a rate table with columns Mes / Moneda / Cotización (first sheet)
+export const parseRatesWorkbook = (workbook: XLSX.WorkBook): ExchangeRate[] => {
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json<Record<string, any>>(sheet);
+  if (rows.length === 0) throw new Error('La hoja no tiene filas');
+
+  const headers = Object.keys(rows[0]);
+  const find = (names: string[]) => headers.find(h => names.some(n => h.toLowerCase().includes(n)));
+  const monthCol = find(MONTH_HEADERS);
+  const currencyCol = find(CURRENCY_HEADERS);
+  const rateCol = find(RATE_HEADERS);
+  if (!monthCol || !currencyCol || !rateCol) {
+    throw new Error('Se esperaban las columnas Mes, Moneda y Cotización');
+  }
+
+  const rates: ExchangeRate[] = [];
+  rows.forEach(row => {
+    const month = parseMonth(row[monthCol]);
+    const currency = normalizeCurrency(row[currencyCol], '');
+    const rawRate = row[rateCol];
+    const rate = typeof rawRate === 'number' ? rawRate : parseLocaleAmount(String(rawRate ?? ''), detectNumberFormat([rawRate])).value;
+    if (month && currency && rate > 0) rates.push({ month, currency, rate });
+  });
+  if (rates.length === 0) throw new Error('No se encontraron cotizaciones válidas');
+  return rates;
+};
+
+// Adds or replaces rates by month and currency, keeping the table sorted
+export const mergeRates = (current: ExchangeRate[], incoming: ExchangeRate[]): ExchangeRate[] => {
+  const byKey = new Map(current.map(r => [`${r.month}|${r.currency}`, r]));
+  incoming.forEach(r => byKey.set(`${r.month}|${r.currency}`, r));
+  return Array.from(byKey.values()).sort((a, b) => a.month.localeCompare(b.month) || a.currency.localeCompare(b.currency));
+};
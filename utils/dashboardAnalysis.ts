@@ -0,0 +1,75 @@
+import { AnalysisQuery, ClassifiedDataset, DashboardAnalysis, ParsedOT } from '../types';
+import { applyStatus } from './statusClassifier';
+import { convertAmounts } from './currency';
+import { getClaimCategory } from './claimRules';
+import { getInternalClientCodes } from './internalClients';
+import { matchesFilters } from './dashboardFilters';
+import { getPeriodDate } from './periods';
+import { calculateStats, buildDelayHistogram } from './excelHelpers';
+
+// Settings that change the classification; filters only change which rows are picked
+export const getClassificationKey = (query: AnalysisQuery): string =>
+  JSON.stringify([query.statusOptions, query.currencySettings, query.claimCategories]);
+
+// Re-classify with the current reference date and calendar, convert amounts to the reporting
+// currency and match the claim rules (first matching category wins)
+export const classifyDataset = (uniqueOTs: ParsedOT[], allRows: ParsedOT[], query: AnalysisQuery): ClassifiedDataset => {
+  const classifiedAllRows = convertAmounts(applyStatus(allRows, query.statusOptions), query.currencySettings);
+  return {
+    uniqueOTs: convertAmounts(applyStatus(uniqueOTs, query.statusOptions), query.currencySettings),
+    allRows: classifiedAllRows,
+    claimCategoryIndexes: classifiedAllRows.map(ot => {
+      const category = getClaimCategory(ot, query.claimCategories);
+      return category ? query.claimCategories.indexOf(category) : -1;
+    })
+  };
+};
+
+const indexesWhere = (rows: ParsedOT[], test: (ot: ParsedOT, index: number) => boolean): number[] => {
+  const indexes: number[] = [];
+  rows.forEach((ot, index) => {
+    if (test(ot, index)) indexes.push(index);
+  });
+  return indexes;
+};
+
+export const pickRows = (rows: ParsedOT[], indexes: number[]): ParsedOT[] => indexes.map(index => rows[index]);
+
+// Filtered subsets and their stats; internal clients never count for compliance or financials
+export const analyzeDataset = (
+  classified: ClassifiedDataset,
+  query: AnalysisQuery,
+  classificationId: number
+): DashboardAnalysis => {
+  const { filters, range, previousRange } = query;
+  const internalCodes = getInternalClientCodes(query.internalClients);
+  const isExternal = (ot: ParsedOT) => !internalCodes.has(ot.clientCode);
+  const { uniqueOTs, allRows, claimCategoryIndexes } = classified;
+
+  const compliance = indexesWhere(uniqueOTs, ot => isExternal(ot) && matchesFilters(ot, filters, range));
+  const previousCompliance = previousRange
+    ? indexesWhere(uniqueOTs, ot => isExternal(ot) && matchesFilters(ot, filters, previousRange))
+    : [];
+  const complianceRows = pickRows(uniqueOTs, compliance);
+  // The monthly trend spans every period
+  const trend = indexesWhere(uniqueOTs, ot => isExternal(ot) && matchesFilters(ot, filters, null));
+
+  const undatedExcluded = !range || filters.includeUndated
+    ? 0
+    : trend.filter(index => !getPeriodDate(uniqueOTs[index], filters.dateField)).length;
+
+  return {
+    classificationId,
+    compliance,
+    trend,
+    financial: indexesWhere(allRows, ot => isExternal(ot) && matchesFilters(ot, filters, range)),
+    previousFinancial: previousRange
+      ? indexesWhere(allRows, ot => isExternal(ot) && matchesFilters(ot, filters, previousRange))
+      : [],
+    claims: indexesWhere(allRows, (ot, index) => claimCategoryIndexes[index] >= 0 && matchesFilters(ot, filters, range)),
+    undatedExcluded,
+    complianceStats: calculateStats(complianceRows),
+    previousComplianceStats: calculateStats(pickRows(uniqueOTs, previousCompliance)),
+    delayHistogram: buildDelayHistogram(complianceRows)
+  };
+};
@@ -0,0 +1,105 @@
+import { DashboardFilters, DateRange, ParsedOT, PeriodPreset, ValueFilter } from '../types';
+import { getSelectedRange, getPresetRange, getPeriodDate, isDateInRange, formatRange, fromInputDate, PERIOD_DATE_FIELD_LABELS } from './periods';
+
+export const EMPTY_VALUE_FILTER: ValueFilter = { mode: 'include', values: [] };
+
+export const DEFAULT_FILTERS: DashboardFilters = {
+  dateField: 'billing',
+  preset: 'calendar',
+  year: 'all',
+  month: 'all',
+  from: '',
+  to: '',
+  includeUndated: false,
+  workshops: EMPTY_VALUE_FILTER,
+  customFields: {}
+};
+
+export const PERIOD_PRESET_LABELS: Record<PeriodPreset, string> = {
+  calendar: 'Año / mes',
+  last3Months: 'Últimos 3 meses',
+  last12Months: 'Últimos 12 meses',
+  ytd: 'Año a la fecha (YTD)',
+  custom: 'Rango de fechas'
+};
+
+// Values listed in a chip before summarizing the rest as "+N"
+const CHIP_VALUE_LIMIT = 3;
+
+export interface FilterChip {
+  id: string;
+  label: string;
+  cleared: DashboardFilters; // The filters without this one
+}
+
+// Period the filters select, or null when they do not restrict dates.
+// Relative presets end on the reference date; a custom range needs both dates.
+export const resolveFilterRange = (filters: DashboardFilters, reference: Date): DateRange | null => {
+  if (filters.preset === 'calendar') return getSelectedRange(filters.year, filters.month);
+  if (filters.preset === 'custom') {
+    const from = fromInputDate(filters.from);
+    const to = fromInputDate(filters.to);
+    if (!from || !to) return null;
+    return from <= to ? { start: from, end: to } : { start: to, end: from };
+  }
+  return getPresetRange(filters.preset, reference);
+};
+
+export const isValueFilterActive = (filter: ValueFilter | undefined): boolean => !!filter && filter.values.length > 0;
+
+export const matchesValueFilter = (value: string, filter: ValueFilter): boolean => {
+  if (filter.values.length === 0) return true;
+  const selected = filter.values.includes(value);
+  return filter.mode === 'include' ? selected : !selected;
+};
+
+export const matchesFilters = (ot: ParsedOT, filters: DashboardFilters, range: DateRange | null): boolean => {
+  if (range) {
+    const date = getPeriodDate(ot, filters.dateField);
+    if (date ? !isDateInRange(date, range) : !filters.includeUndated) return false;
+  }
+  if (!matchesValueFilter(ot.workshop, filters.workshops)) return false;
+  for (const [field, filter] of Object.entries(filters.customFields)) {
+    if (!matchesValueFilter(ot.customValues[field] || '', filter)) return false;
+  }
+  return true;
+};
+
+const describeValues = (label: string, filter: ValueFilter): string => {
+  const shown = filter.values.slice(0, CHIP_VALUE_LIMIT).join(', ');
+  const rest = filter.values.length > CHIP_VALUE_LIMIT ? ` +${filter.values.length - CHIP_VALUE_LIMIT}` : '';
+  return `${label}${filter.mode === 'exclude' ? ' (excepto)' : ''}: ${shown}${rest}`;
+};
+
+// One chip per active filter, e.g. "Fecha prometida: Últimos 3 meses (20/07/2026 – 19/10/2026)"
+export const getFilterChips = (filters: DashboardFilters, range: DateRange | null, undatedExcluded: number): FilterChip[] => {
+  const chips: FilterChip[] = [];
+
+  if (range) {
+    const preset = filters.preset === 'calendar' || filters.preset === 'custom' ? '' : `${PERIOD_PRESET_LABELS[filters.preset]} `;
+    const undated = filters.includeUndated
+      ? ' · incluye OTs sin fecha'
+      : undatedExcluded > 0 ? ` · ${undatedExcluded.toLocaleString('es-PY')} sin fecha excluidas` : '';
+    chips.push({
+      id: 'period',
+      label: `${PERIOD_DATE_FIELD_LABELS[filters.dateField]}: ${preset}${preset ? `(${formatRange(range)})` : formatRange(range)}${undated}`,
+      cleared: { ...filters, preset: 'calendar', year: 'all', month: 'all', from: '', to: '' }
+    });
+  }
+
+  if (isValueFilterActive(filters.workshops)) {
+    chips.push({
+      id: 'workshops',
+      label: describeValues('Taller', filters.workshops),
+      cleared: { ...filters, workshops: EMPTY_VALUE_FILTER }
+    });
+  }
+
+  Object.entries(filters.customFields).forEach(([field, filter]) => {
+    if (!isValueFilterActive(filter)) return;
+    const { [field]: _removed, ...customFields } = filters.customFields;
+    chips.push({ id: `custom:${field}`, label: describeValues(field, filter), cleared: { ...filters, customFields } });
+  });
+
+  return chips;
+};
@@ -0,0 +1,117 @@
+import { ComparisonMode, DashboardFilters, DashboardTab, DashboardView, PeriodDateField, PeriodPreset, SavedView, ValueFilter } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+import { DEFAULT_FILTERS, PERIOD_PRESET_LABELS } from './dashboardFilters';
+import { PERIOD_DATE_FIELD_LABELS } from './periods';
+
+const STORAGE_KEY = 'dashboard-views';
+
+const TABS: DashboardTab[] = ['compliance', 'financial'];
+const COMPARISON_MODES: ComparisonMode[] = ['none', 'previous', 'lastYear', 'ytd'];
+
+// Prefix of the hash parameters holding the additional filters, e.g. "f.Marca=Toyota"
+const FIELD_PREFIX = 'f.';
+const FIELD_MODE_PREFIX = 'fMode.';
+
+export const DEFAULT_VIEW: DashboardView = {
+  filters: DEFAULT_FILTERS,
+  activeTab: 'compliance',
+  comparisonMode: 'none'
+};
+
+export const loadSavedViews = (): SavedView[] => {
+  const stored = loadFromStorage<SavedView[]>(STORAGE_KEY, []);
+  return Array.isArray(stored) ? stored : [];
+};
+
+export const saveSavedViews = (views: SavedView[]): void => {
+  saveToStorage(STORAGE_KEY, views);
+};
+
+// Inserts or replaces (by name) a view, keeping the list sorted alphabetically
+export const upsertView = (views: SavedView[], view: SavedView): SavedView[] => {
+  return [...views.filter(v => v.name !== view.name), view]
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Drops filters on fields the loaded file does not map, so a view from another export never hides every row
+export const adaptViewToFields = (view: DashboardView, fields: string[]): DashboardView => ({
+  ...view,
+  filters: {
+    ...view.filters,
+    customFields: Object.fromEntries(Object.entries(view.filters.customFields).filter(([field]) => fields.includes(field)))
+  }
+});
+
+const writeValueFilter = (params: URLSearchParams, key: string, modeKey: string, filter: ValueFilter) => {
+  if (filter.values.length === 0) return;
+  filter.values.forEach(value => params.append(key, value));
+  if (filter.mode === 'exclude') params.set(modeKey, 'exclude');
+};
+
+const readValueFilter = (params: URLSearchParams, key: string, modeKey: string): ValueFilter => ({
+  mode: params.get(modeKey) === 'exclude' ? 'exclude' : 'include',
+  values: params.getAll(key)
+});
+
+// Only what differs from the default view goes in the hash, e.g. "#tab=financial&year=2024&ws=Taller+Central"
+export const encodeViewHash = (view: DashboardView): string => {
+  const { filters } = view;
+  const params = new URLSearchParams();
+  if (view.activeTab !== DEFAULT_VIEW.activeTab) params.set('tab', view.activeTab);
+  if (view.comparisonMode !== DEFAULT_VIEW.comparisonMode) params.set('compare', view.comparisonMode);
+  if (filters.dateField !== DEFAULT_FILTERS.dateField) params.set('date', filters.dateField);
+  if (filters.preset !== DEFAULT_FILTERS.preset) params.set('preset', filters.preset);
+  if (filters.preset === 'calendar' && filters.year !== 'all') {
+    params.set('year', filters.year);
+    if (filters.month !== 'all') params.set('month', filters.month);
+  }
+  if (filters.preset === 'custom') {
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+  }
+  if (filters.includeUndated) params.set('undated', '1');
+  writeValueFilter(params, 'ws', 'wsMode', filters.workshops);
+  Object.entries(filters.customFields).forEach(([field, filter]) => {
+    writeValueFilter(params, FIELD_PREFIX + field, FIELD_MODE_PREFIX + field, filter);
+  });
+  const query = params.toString();
+  return query ? `#${query}` : '';
+};
+
+// Reads a hash written by encodeViewHash; null when it holds no view. Unknown values fall back to the defaults.
+export const decodeViewHash = (hash: string): DashboardView | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  if (Array.from(params.keys()).length === 0) return null;
+
+  const pick = <T extends string>(key: string, allowed: readonly T[], fallback: T): T => {
+    const value = params.get(key);
+    return value !== null && (allowed as readonly string[]).includes(value) ? value as T : fallback;
+  };
+
+  const customFields: Record<string, ValueFilter> = {};
+  new Set(Array.from(params.keys())).forEach(key => {
+    if (!key.startsWith(FIELD_PREFIX)) return;
+    const field = key.slice(FIELD_PREFIX.length);
+    customFields[field] = readValueFilter(params, key, FIELD_MODE_PREFIX + field);
+  });
+
+  const year = params.get('year');
+  const month = params.get('month');
+  const filters: DashboardFilters = {
+    dateField: pick('date', Object.keys(PERIOD_DATE_FIELD_LABELS) as PeriodDateField[], DEFAULT_FILTERS.dateField),
+    preset: pick('preset', Object.keys(PERIOD_PRESET_LABELS) as PeriodPreset[], DEFAULT_FILTERS.preset),
+    year: year && /^\d{4}$/.test(year) ? year : 'all',
+    month: year && month && /^([0-9]|1[01])$/.test(month) ? month : 'all',
+    from: params.get('from') || '',
+    to: params.get('to') || '',
+    includeUndated: params.get('undated') === '1',
+    workshops: readValueFilter(params, 'ws', 'wsMode'),
+    customFields
+  };
+
+  return {
+    filters,
+    activeTab: pick('tab', TABS, DEFAULT_VIEW.activeTab),
+    comparisonMode: pick('compare', COMPARISON_MODES, DEFAULT_VIEW.comparisonMode)
+  };
+};
@@ -0,0 +1,41 @@
+import { DataQualityIssue, DataQualityIssueType, ProcessingReport } from '../types';
+
+const ONE_YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export const DATA_QUALITY_LABELS: Record<DataQualityIssueType, string> = {
+  unparsedDate: 'Fecha no reconocida',
+  deliveryBeforePromise: 'Entrega más de un año antes de lo prometido',
+  futureDelivery: 'Fecha de entrega futura',
+  nonPositiveAmount: 'Importe negativo o cero',
+  missingWorkshop: 'Taller vacío',
+  partialAmount: 'Importe leído parcialmente'
+};
+
+export const ALL_DATA_QUALITY_TYPES = Object.keys(DATA_QUALITY_LABELS) as DataQualityIssueType[];
+
+export const isDeliveryTooEarly = (realDate: Date | null, promisedDate: Date | null): boolean => {
+  if (!realDate || !promisedDate) return false;
+  return promisedDate.getTime() - realDate.getTime() > ONE_YEAR_MS;
+};
+
+export const isFutureDate = (date: Date | null, now: Date): boolean => {
+  if (!date) return false;
+  const endOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  return date.getTime() >= endOfToday.getTime();
+};
+
+export const getIssueRowKey = (issue: DataQualityIssue) => `${issue.sourceFile}/${issue.sourceSheet}#${issue.rowNumber}`;
+
+// Share of non-empty rows without any issue, 0-100
+export const getDataQualityScore = (report: ProcessingReport): number => {
+  const evaluatedRows = report.totalRows - report.emptyRows;
+  if (evaluatedRows <= 0) return 100;
+  const affectedRows = new Set(report.issues.map(getIssueRowKey)).size;
+  return Math.round(((evaluatedRows - affectedRows) / evaluatedRows) * 1000) / 10;
+};
+
+export const countIssuesByType = (issues: DataQualityIssue[]): Record<DataQualityIssueType, number> => {
+  const counts = Object.fromEntries(ALL_DATA_QUALITY_TYPES.map(t => [t, 0])) as Record<DataQualityIssueType, number>;
+  issues.forEach(issue => { counts[issue.type]++; });
+  return counts;
+};
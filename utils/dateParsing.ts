@@ -0,0 +1,127 @@
+import { DateFormat } from '../types';
+
+export type ResolvedDateFormat = Exclude<DateFormat, 'auto'>;
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  auto: 'Auto-detectar',
+  dmy: 'DD/MM/AAAA',
+  mdy: 'MM/DD/AAAA'
+};
+
+const MONTH_ABBREVIATIONS: Record<string, number> = {
+  ene: 0, jan: 0, feb: 1, mar: 2, abr: 3, apr: 3, may: 4, jun: 5,
+  jul: 6, ago: 7, aug: 7, sep: 8, set: 8, oct: 9, nov: 10, dic: 11, dec: 11
+};
+
+// Day-month-year (or month-day-year), optional time, optional AM/PM or zone suffix
+const NUMERIC_DATE = /^(\d{1,2})[/\-.](\d{1,2})[/\-.](\d{4}|\d{2})(?!\d)(?:[ T]+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*([ap]\.?m\.?)?)?/i;
+// Year first (ISO-like), optional time; a trailing Z or offset is ignored on purpose
+const YEAR_FIRST_DATE = /^(\d{4})[/\-.](\d{1,2})[/\-.](\d{1,2})(?:[ T]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+// 04-mar-2025, 4 Mar 25
+const NAMED_MONTH_DATE = /^(\d{1,2})[\s/\-.]+([a-z]{3})[a-z]*\.?[\s/\-.]+(\d{4}|\d{2})(?!\d)/i;
+
+// Two-digit years: 00-49 -> 2000s, 50-99 -> 1900s
+export const expandYear = (year: number): number => {
+  if (year >= 100) return year;
+  return year < 50 ? 2000 + year : 1900 + year;
+};
+
+// Builds a local date and rejects overflow such as 31/02 rolling into March
+const buildDate = (year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0): Date | null => {
+  if (month < 0 || month > 11 || day < 1 || day > 31 || hours > 23 || minutes > 59 || seconds > 59) return null;
+  const date = new Date(expandYear(year), month, day, hours, minutes, seconds);
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+};
+
+// Excel serial numbers count days since 1899-12-30 and carry no timezone;
+// read them as local wall-clock time so they do not shift a day back
+export const fromExcelSerial = (serial: number): Date | null => {
+  const utc = new Date(Math.round((serial - 25569) * 86400 * 1000));
+  if (isNaN(utc.getTime())) return null;
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(), utc.getUTCHours(), utc.getUTCMinutes(), utc.getUTCSeconds());
+};
+
+const to24h = (hours: number, meridiem?: string) => {
+  if (!meridiem) return hours;
+  const pm = meridiem.toLowerCase().startsWith('p');
+  if (pm && hours < 12) return hours + 12;
+  if (!pm && hours === 12) return 0;
+  return hours;
+};
+
+export const parseDateValue = (value: any, format: ResolvedDateFormat): Date | null => {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+
+  if (typeof value === 'number') {
+    return fromExcelSerial(value);
+  }
+
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return fromExcelSerial(Number(trimmed));
+  }
+
+  const yearFirst = trimmed.match(YEAR_FIRST_DATE);
+  if (yearFirst) {
+    const [, y, m, d, hh, mm, ss] = yearFirst;
+    return buildDate(+y, +m - 1, +d, +(hh || 0), +(mm || 0), +(ss || 0));
+  }
+
+  const numeric = trimmed.match(NUMERIC_DATE);
+  if (numeric) {
+    const [, first, second, y, hh, mm, ss, meridiem] = numeric;
+    const [day, month] = format === 'mdy' ? [+second, +first] : [+first, +second];
+    return buildDate(+y, month - 1, day, to24h(+(hh || 0), meridiem), +(mm || 0), +(ss || 0));
+  }
+
+  const named = trimmed.match(NAMED_MONTH_DATE);
+  if (named) {
+    const month = MONTH_ABBREVIATIONS[named[2].toLowerCase()];
+    return month === undefined ? null : buildDate(+named[3], month, +named[1]);
+  }
+
+  return null;
+};
+
+export interface DateFormatDetection {
+  format: ResolvedDateFormat;
+  ambiguous: number; // Values readable either way (e.g. 03/04/2025)
+  inconsistent: boolean; // Some values only fit DD/MM and others only MM/DD
+  examples: string[]; // A few ambiguous values to show to the user
+}
+
+// Checks every text value of a column; without evidence the Paraguayan DD/MM order is assumed
+export const detectDateFormat = (values: any[]): DateFormatDetection => {
+  let dmy = 0;
+  let mdy = 0;
+  let ambiguous = 0;
+  const examples: string[] = [];
+
+  values.forEach(value => {
+    if (typeof value !== 'string') return;
+    const match = value.trim().match(NUMERIC_DATE);
+    if (!match) return;
+    const first = +match[1];
+    const second = +match[2];
+    if (first > 12 && second <= 12) dmy++;
+    else if (second > 12 && first <= 12) mdy++;
+    else if (first !== second && first <= 12 && second <= 12) {
+      ambiguous++;
+      if (examples.length < 3) examples.push(value.trim());
+    }
+  });
+
+  return {
+    format: mdy > dmy ? 'mdy' : 'dmy',
+    ambiguous,
+    inconsistent: dmy > 0 && mdy > 0,
+    examples
+  };
+};
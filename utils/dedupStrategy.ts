@@ -0,0 +1,146 @@
+import { DedupCriterion, DedupStrategy, ParsedOT } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const STORAGE_KEY = 'dedup-strategy';
+
+// Original fixed priorities: external over internal, then a row with delivery date, then first seen
+export const DEFAULT_DEDUP_STRATEGY: DedupStrategy = {
+  mode: 'select',
+  criteria: ['externalClient', 'hasRealDate'],
+  preferredOtType: ''
+};
+
+export const DEDUP_CRITERION_LABELS: Record<DedupCriterion, string> = {
+  externalClient: 'Cliente externo sobre interno',
+  hasRealDate: 'Con fecha de entrega',
+  latestBilling: 'Fecha de facturación más reciente',
+  earliestPromised: 'Fecha prometida más temprana',
+  largestAmount: 'Mayor importe',
+  hasSecondPromised: 'Con segunda fecha prometida',
+  preferredOtType: 'Tipo de OT preferido'
+};
+
+export const ALL_DEDUP_CRITERIA = Object.keys(DEDUP_CRITERION_LABELS) as DedupCriterion[];
+
+export const loadDedupStrategy = (): DedupStrategy => {
+  const stored = loadFromStorage<Partial<DedupStrategy>>(STORAGE_KEY, {});
+  return {
+    mode: stored.mode === 'aggregate' ? 'aggregate' : 'select',
+    criteria: Array.isArray(stored.criteria)
+      ? stored.criteria.filter(c => ALL_DEDUP_CRITERIA.includes(c))
+      : DEFAULT_DEDUP_STRATEGY.criteria,
+    preferredOtType: stored.preferredOtType || ''
+  };
+};
+
+export const saveDedupStrategy = (strategy: DedupStrategy): void => {
+  saveToStorage(STORAGE_KEY, strategy);
+};
+
+export const describeDedupStrategy = (strategy: DedupStrategy): string => {
+  const criteria = strategy.criteria.map(c => c === 'preferredOtType' && strategy.preferredOtType
+    ? `${DEDUP_CRITERION_LABELS[c]} ("${strategy.preferredOtType}")`
+    : DEDUP_CRITERION_LABELS[c]);
+  const order = [...criteria, 'Primer registro leído'].join(' → ');
+  return strategy.mode === 'aggregate'
+    ? `Fusión de registros (base elegida por: ${order})`
+    : `Selección de un registro: ${order}`;
+};
+
+// Positive when a wins, negative when b wins
+const preferTrue = (a: boolean, b: boolean) => Number(a) - Number(b);
+
+// Missing dates always lose against present ones
+const compareDates = (a: Date | null, b: Date | null, prefer: 'earliest' | 'latest') => {
+  if (!a || !b) return preferTrue(!!a, !!b);
+  const diff = a.getTime() - b.getTime();
+  return prefer === 'latest' ? diff : -diff;
+};
+
+const compareBy = (a: ParsedOT, b: ParsedOT, criterion: DedupCriterion, strategy: DedupStrategy): number => {
+  switch (criterion) {
+    case 'externalClient':
+      return preferTrue(!a.isInternalClient, !b.isInternalClient);
+    case 'hasRealDate':
+      return preferTrue(!!a.realDate, !!b.realDate);
+    case 'latestBilling':
+      return compareDates(a.billingDate, b.billingDate, 'latest');
+    case 'earliestPromised':
+      return compareDates(a.estimatedDate, b.estimatedDate, 'earliest');
+    case 'largestAmount':
+      return a.amount - b.amount;
+    case 'hasSecondPromised':
+      return preferTrue(!!a.secondEstimatedDate, !!b.secondEstimatedDate);
+    case 'preferredOtType': {
+      const preferred = strategy.preferredOtType.trim().toLowerCase();
+      if (!preferred) return 0;
+      return preferTrue(a.otType.toLowerCase().includes(preferred), b.otType.toLowerCase().includes(preferred));
+    }
+  }
+};
+
+export interface DuplicateResolution {
+  ot: ParsedOT; // Representative (select) or merged (aggregate) OT
+  discarded: { ot: ParsedOT; reason: string }[];
+  outcome: string;
+}
+
+// Picks the winning row following the ordered criteria; rows are given in reading order
+const pickRepresentative = (rows: ParsedOT[], strategy: DedupStrategy) => {
+  let winner = rows[0];
+  const discarded: { ot: ParsedOT; reason: string }[] = [];
+
+  rows.slice(1).forEach(candidate => {
+    const decisive = strategy.criteria.find(c => compareBy(candidate, winner, c, strategy) !== 0);
+    if (decisive && compareBy(candidate, winner, decisive, strategy) > 0) {
+      discarded.push({ ot: winner, reason: `Reemplazado: ${DEDUP_CRITERION_LABELS[decisive]}` });
+      winner = candidate;
+    } else {
+      discarded.push({ ot: candidate, reason: decisive ? `Descartado: ${DEDUP_CRITERION_LABELS[decisive]}` : 'Duplicado ignorado' });
+    }
+  });
+
+  return { winner, discarded };
+};
+
+const pickDate = (dates: (Date | null)[], prefer: 'earliest' | 'latest'): Date | null => {
+  const present = dates.filter((d): d is Date => d !== null);
+  if (present.length === 0) return null;
+  return present.reduce((best, d) => (compareDates(d, best, prefer) > 0 ? d : best));
+};
+
+// Merges duplicates into one OT; identity fields come from the representative row.
+// The status is left as-is: the caller re-classifies with the merged dates.
+const mergeRows = (base: ParsedOT, rows: ParsedOT[]): ParsedOT => {
+  const invoices = Array.from(new Set(rows.map(r => r.invoiceId).filter((id): id is string => !!id)));
+  // Amounts only add up within one currency; rows in another currency are left out of the sum
+  const sameCurrency = rows.filter(r => r.currency === base.currency);
+  return {
+    ...base,
+    invoiceId: invoices.length > 0 ? invoices.join(', ') : base.invoiceId,
+    estimatedDate: pickDate(rows.map(r => r.estimatedDate), 'earliest'),
+    secondEstimatedDate: pickDate(rows.map(r => r.secondEstimatedDate), 'earliest'),
+    realDate: pickDate(rows.map(r => r.realDate), 'latest'),
+    billingDate: pickDate(rows.map(r => r.billingDate), 'latest'),
+    amount: sameCurrency.reduce((sum, r) => sum + r.amount, 0),
+    originalAmount: sameCurrency.reduce((sum, r) => sum + r.originalAmount, 0)
+  };
+};
+
+export const resolveDuplicates = (rows: ParsedOT[], strategy: DedupStrategy): DuplicateResolution => {
+  const { winner, discarded } = pickRepresentative(rows, strategy);
+
+  if (strategy.mode === 'aggregate') {
+    return {
+      ot: mergeRows(winner, rows),
+      discarded: discarded.map(({ ot }) => ({ ot, reason: 'Fusionado' })),
+      outcome: `${rows.length} filas fusionadas (prometida más temprana, entrega y facturación más recientes, importe sumado)`
+    };
+  }
+
+  return {
+    ot: winner,
+    discarded,
+    outcome: `Se conservó 1 de ${rows.length} filas. ${discarded.map(d => d.reason).join('; ')}`
+  };
+};
@@ -0,0 +1,122 @@
+import * as XLSX from 'xlsx';
+import { DelimitedTextOptions, TextEncoding } from '../types';
+import { detectNumberFormat } from './currency';
+
+export const DELIMITED_EXTENSIONS = ['.csv', '.tsv', '.txt'];
+
+export const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Coma (,)',
+  ';': 'Punto y coma (;)',
+  '\t': 'Tabulación',
+  '|': 'Barra vertical (|)'
+};
+
+export const ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'windows-1252': 'Windows-1252 (ANSI)',
+  'utf-16le': 'UTF-16 (Unicode de Excel)'
+};
+
+// Lines sampled to guess the delimiter
+const SAMPLE_LINES = 20;
+
+export const isDelimitedFile = (fileName: string) =>
+  DELIMITED_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
+
+// BOMs first; otherwise UTF-8 when the bytes are valid UTF-8, else the usual Windows export encoding
+export const detectEncoding = (bytes: Uint8Array): TextEncoding => {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+// RFC 4180 style: quoted fields may contain the delimiter, line breaks and doubled quotes
+export const parseDelimited = (text: string, delimiter: string, maxRows = Infinity): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if ((field !== '' || row.length > 0) && rows.length < maxRows) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// The delimiter that splits the most sample lines into the same number of columns
+export const detectDelimiter = (text: string, fallback = ','): string => {
+  let best = fallback;
+  let bestScore = 0;
+  Object.keys(DELIMITER_LABELS).forEach(delimiter => {
+    const counts = parseDelimited(text, delimiter, SAMPLE_LINES)
+      .filter(cells => cells.some(cell => cell.trim() !== ''))
+      .map(cells => cells.length);
+    if (counts.length === 0) return;
+    const frequency = new Map<number, number>();
+    counts.forEach(count => frequency.set(count, (frequency.get(count) ?? 0) + 1));
+    const [columns, lines] = Array.from(frequency.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    if (columns < 2) return;
+    const score = (lines / counts.length) * 1000 + columns;
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  });
+  return best;
+};
+
+const decode = (bytes: Uint8Array, encoding: TextEncoding) =>
+  new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, '');
+
+// Values that look like plain numbers, used for the decimal separator
+const NUMERIC_TEXT = /^[-+]?\d[\d.,]*$/;
+
+export const detectDelimitedOptions = (bytes: Uint8Array, fileName: string): DelimitedTextOptions => {
+  const encoding = detectEncoding(bytes);
+  const text = decode(bytes, encoding);
+  const delimiter = detectDelimiter(text, fileName.toLowerCase().endsWith('.tsv') ? '\t' : ',');
+  const values = parseDelimited(text, delimiter, 500).flat().map(cell => cell.trim()).filter(cell => NUMERIC_TEXT.test(cell));
+  return { delimiter, encoding, numberFormat: detectNumberFormat(values) };
+};
+
+// One-sheet workbook named after the file; every cell stays text and is read later
+// by the same date and amount parsers used for Excel
+export const readDelimitedWorkbook = (bytes: Uint8Array, fileName: string, options: DelimitedTextOptions): XLSX.WorkBook => {
+  const rows = parseDelimited(decode(bytes, options.encoding), options.delimiter);
+  const workbook = XLSX.utils.book_new();
+  const sheetName = fileName.replace(/\.[^.]+$/, '').replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Datos';
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), sheetName);
+  return workbook;
+};
@@ -0,0 +1,132 @@
+import * as XLSX from 'xlsx';
+
+export type ExportValue = string | number | Date | null | undefined;
+
+export const DATE_NUMBER_FORMAT = 'dd/mm/yyyy';
+export const INTEGER_NUMBER_FORMAT = '#,##0';
+export const PERCENT_NUMBER_FORMAT = '0.0"%"'; // Rates are already 0-100
+
+// Guaraníes have no cents
+export const getAmountNumberFormat = (currency: string): string => (currency === 'PYG' ? '#,##0' : '#,##0.00');
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportValue;
+  format?: string | ((row: T) => string); // Excel number format of numeric cells; dates always use DATE_NUMBER_FORMAT
+  width?: number; // Characters
+}
+
+// A cell of a free-form sheet, with an optional number format
+export interface ExportCell {
+  value: ExportValue;
+  format?: string;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+// Excel serial of the calendar day, independent of the browser's time zone
+const toExcelDate = (date: Date): number =>
+  (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - EXCEL_EPOCH) / MS_PER_DAY;
+
+const toCell = (value: ExportValue, format?: string): XLSX.CellObject | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : { t: 'n', v: toExcelDate(value), z: DATE_NUMBER_FORMAT };
+  }
+  if (typeof value === 'number') return format ? { t: 'n', v: value, z: format } : { t: 'n', v: value };
+  return { t: 's', v: value };
+};
+
+// Header row plus one row per item, with autofilter; the header is frozen by writeWorkbook
+export const buildTableSheet = <T>(rows: T[], columns: ExportColumn<T>[]): XLSX.WorkSheet => {
+  const ws: XLSX.WorkSheet = {};
+  columns.forEach((column, c) => {
+    ws[XLSX.utils.encode_cell({ r: 0, c })] = { t: 's', v: column.header };
+  });
+  rows.forEach((row, index) => {
+    columns.forEach((column, c) => {
+      const format = typeof column.format === 'function' ? column.format(row) : column.format;
+      const cell = toCell(column.value(row), format);
+      if (cell) ws[XLSX.utils.encode_cell({ r: index + 1, c })] = cell;
+    });
+  });
+  const ref = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length, c: Math.max(columns.length - 1, 0) } });
+  ws['!ref'] = ref;
+  ws['!autofilter'] = { ref };
+  ws['!cols'] = columns.map(column => ({ wch: column.width || Math.max(10, column.header.length + 2) }));
+  return ws;
+};
+
+const isExportCell = (item: ExportValue | ExportCell): item is ExportCell =>
+  typeof item === 'object' && item !== null && !(item instanceof Date);
+
+// Free-form rows (titles, label/value pairs, small tables); no autofilter or frozen header
+export const buildListSheet = (lines: (ExportValue | ExportCell)[][], widths: number[] = []): XLSX.WorkSheet => {
+  const ws: XLSX.WorkSheet = {};
+  let lastColumn = 0;
+  lines.forEach((line, r) => {
+    line.forEach((item, c) => {
+      const cell = isExportCell(item) ? toCell(item.value, item.format) : toCell(item);
+      if (cell) ws[XLSX.utils.encode_cell({ r, c })] = cell;
+      lastColumn = Math.max(lastColumn, c);
+    });
+  });
+  ws['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: Math.max(lines.length - 1, 0), c: lastColumn } });
+  ws['!cols'] = widths.map(wch => ({ wch }));
+  return ws;
+};
+
+const FROZEN_HEADER_PANE = '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>';
+
+// XLSX.CFB is typed as any; the parts of the zip container used here
+interface ZipEntry {
+  content: Uint8Array | number[];
+  size: number;
+}
+
+interface ZipContainer {
+  FullPaths: string[];
+  FileIndex: ZipEntry[];
+}
+
+// Adds the pane to the (empty) sheet view, or a whole sheetViews element when there is none; it goes
+// before sheetFormatPr, cols and sheetData as the OOXML element order requires. Null when it does not fit.
+const withFrozenHeader = (xml: string): string | null => {
+  const view = xml.match(/<sheetView\b[^>]*?\s*\/>/);
+  if (view) return xml.replace(view[0], `${view[0].replace(/\s*\/>$/, '>')}${FROZEN_HEADER_PANE}</sheetView>`);
+  if (xml.includes('<sheetViews')) return null;
+  const at = xml.search(/<(sheetFormatPr|cols|sheetData)\b/);
+  if (at === -1) return null;
+  return `${xml.slice(0, at)}<sheetViews><sheetView workbookViewId="0">${FROZEN_HEADER_PANE}</sheetView></sheetViews>${xml.slice(at)}`;
+};
+
+// The community build of SheetJS does not write frozen panes, so they are added to the sheet XML of the
+// written file for every sheet that has an autofilter (the tables built by buildTableSheet).
+// A sheet whose view cannot take the pane is left as written.
+const freezeTableHeaders = (wb: XLSX.WorkBook, data: ArrayBuffer): Uint8Array => {
+  const zip: ZipContainer = XLSX.CFB.read(new Uint8Array(data), { type: 'array' });
+  wb.SheetNames.forEach((name, index) => {
+    if (!wb.Sheets[name]['!autofilter']) return;
+    const entryIndex = zip.FullPaths.findIndex(path => path.endsWith(`/xl/worksheets/sheet${index + 1}.xml`));
+    const entry = zip.FileIndex[entryIndex];
+    if (!entry) return;
+    const xml = withFrozenHeader(new TextDecoder().decode(new Uint8Array(entry.content)));
+    if (xml === null) return;
+    const content = new TextEncoder().encode(xml);
+    entry.content = content;
+    entry.size = content.length;
+  });
+  return new Uint8Array(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array' }) as ArrayBuffer);
+};
+
+export const writeWorkbook = (wb: XLSX.WorkBook, fileName: string): void => {
+  const data = freezeTableHeaders(wb, XLSX.write(wb, { bookType: 'xlsx', type: 'array' }));
+  const blob = new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -1,126 +1,233 @@
 import * as XLSX from 'xlsx';
-import { ExcelRow, GlobalStats, WorkshopStats, ParsedOT, ColumnMapping, ProcessingReport, ProcessResult } from '../types';
-
-const INTERNAL_CLIENT_CODES = ['C0008157', 'C0001114', 'C0001140'];
-
-// Helper to convert Excel date serial number to JS Date
-const parseExcelDate = (dateVal: any): Date | null => {
-  if (dateVal === null || dateVal === undefined || dateVal === '') return null;
-  
-  if (dateVal instanceof Date) {
-    return isNaN(dateVal.getTime()) ? null : dateVal;
+import { ExcelRow, MappingSample, GlobalStats, WorkshopStats, ParsedOT, ColumnMapping, ProcessingReport, ProcessResult, InternalClient, SheetSource, SheetLayout, SourceBreakdown, MonthlyTrendPoint, PeriodDateField, StatusOptions, DelayStats, DedupStrategy, DedupResolution, DataQualityIssue, DataQualityIssueType, DateColumnReport, ProcessingProgress, DelimitedTextOptions } from '../types';
+import { MONTH_NAMES, getPeriodDate } from './periods';
+import { classifyOT } from './statusClassifier';
+import { getInternalClientCodes } from './internalClients';
+import { resolveDuplicates } from './dedupStrategy';
+import { isDeliveryTooEarly, isFutureDate } from './dataQuality';
+import { parseLocaleAmount, detectNumberFormat, normalizeCurrency, BASE_CURRENCY } from './currency';
+import { parseDateValue, detectDateFormat, DATE_FORMAT_LABELS } from './dateParsing';
+import { detectSheetLayout, buildHeaders, readSheetRows, readSheetRow } from './sheetLayout';
+import { isDelimitedFile, detectDelimitedOptions, readDelimitedWorkbook } from './delimitedText';
+
+// CSV/TSV/TXT files are decoded with the given options, or with the detected ones when missing
+export const loadWorkbook = async (
+  file: File,
+  textOptions?: DelimitedTextOptions
+): Promise<{ workbook: XLSX.WorkBook; sheetNames: string[]; textOptions?: DelimitedTextOptions }> => {
+  if (isDelimitedFile(file.name)) {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const options = textOptions ?? detectDelimitedOptions(bytes, file.name);
+    const workbook = readDelimitedWorkbook(bytes, file.name, options);
+    return { workbook, sheetNames: workbook.SheetNames, textOptions: options };
   }
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+  return { workbook, sheetNames: workbook.SheetNames };
+};
 
-  if (typeof dateVal === 'number') {
-    const date = new Date(Math.round((dateVal - 25569) * 86400 * 1000));
-    return isNaN(date.getTime()) ? null : date;
-  }
+export const getSheetLayout = (source: SheetSource): SheetLayout =>
+  source.layout ?? detectSheetLayout(source.workbook.Sheets[source.sheetName]);
 
-  if (typeof dateVal === 'string') {
-    const trimmed = dateVal.trim();
-    if (!trimmed) return null;
+export const getSheetHeaders = (source: SheetSource): string[] =>
+  buildHeaders(source.workbook.Sheets[source.sheetName], getSheetLayout(source)).filter(h => h !== '');
 
-    if (!isNaN(Number(trimmed)) && !trimmed.includes('/') && !trimmed.includes('-') && !trimmed.includes(':')) {
-       const date = new Date(Math.round((Number(trimmed) - 25569) * 86400 * 1000));
-       return isNaN(date.getTime()) ? null : date;
-    }
+export const getSourceLabel = (source: { fileName: string; sheetName: string }) => `${source.fileName} / ${source.sheetName}`;
 
-    const latamDate = trimmed.match(/^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})/);
-    if (latamDate) {
-      const day = parseInt(latamDate[1], 10);
-      const month = parseInt(latamDate[2], 10) - 1;
-      const year = parseInt(latamDate[3], 10);
-      const date = new Date(year, month, day);
-      return isNaN(date.getTime()) ? null : date;
-    }
-    
-    const isoDate = trimmed.match(/^(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})/);
-    if (isoDate) {
-       const year = parseInt(isoDate[1], 10);
-       const month = parseInt(isoDate[2], 10) - 1;
-       const day = parseInt(isoDate[3], 10);
-       const date = new Date(year, month, day);
-       return isNaN(date.getTime()) ? null : date;
-    }
+// "Ventas.xlsx / Hoja1, fila 25": where to find the record in the original file
+export const getRowReference = (ot: ParsedOT) =>
+  `${getSourceLabel({ fileName: ot.sourceFile, sheetName: ot.sourceSheet })}, fila ${ot.sourceRow}`;
 
-    const date = new Date(trimmed);
-    if (!isNaN(date.getTime())) return date;
-  }
+// Original cell values of one row, read again from the workbook when the user asks for them
+export const getSourceRow = (source: SheetSource, rowNumber: number): ExcelRow | null =>
+  readSheetRow(source.workbook.Sheets[source.sheetName], getSheetLayout(source), rowNumber);
 
-  return null;
+// Union of the headers of every selected sheet, in first-seen order
+export const getCombinedHeaders = (sources: SheetSource[]): string[] => {
+  const headers = new Set<string>();
+  sources.forEach(source => {
+    getSheetHeaders(source).forEach(h => headers.add(h));
+  });
+  return Array.from(headers);
 };
 
-const parseAmount = (val: any): number => {
-  if (typeof val === 'number') return val;
-  if (typeof val === 'string') {
-    const clean = val.replace(/[^0-9.-]/g, '');
-    const num = parseFloat(clean);
-    return isNaN(num) ? 0 : num;
-  }
-  return 0;
-};
+// Rows handed to the column mapper, split evenly between the selected sheets
+const MAPPING_SAMPLE_ROWS = 200;
 
-export const loadWorkbook = (file: File): Promise<{ workbook: XLSX.WorkBook; sheetNames: string[] }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: 'binary', cellDates: true });
-        resolve({ workbook, sheetNames: workbook.SheetNames });
-      } catch (error) {
-        reject(error);
-      }
-    };
-    reader.onerror = (error) => reject(error);
-    reader.readAsBinaryString(file);
+export const getMappingSample = (sources: SheetSource[]): MappingSample => {
+  const perSource = Math.ceil(MAPPING_SAMPLE_ROWS / Math.max(sources.length, 1));
+  const rows: ExcelRow[] = [];
+  let totalRows = 0;
+  let subtotalRows = 0;
+  sources.forEach(source => {
+    const sheet = readSheetRows(source.workbook.Sheets[source.sheetName], getSheetLayout(source));
+    totalRows += sheet.rows.length;
+    subtotalRows += sheet.subtotalRows;
+    rows.push(...sheet.rows.slice(0, perSource));
   });
+  const formats = new Set(sources.map(source => source.numberFormat));
+  const [numberFormat] = Array.from(formats);
+  return {
+    headers: getCombinedHeaders(sources),
+    rows,
+    totalRows,
+    subtotalRows,
+    numberFormat: formats.size === 1 ? numberFormat : undefined
+  };
 };
 
-export const getSheetHeaders = (workbook: XLSX.WorkBook, sheetName: string): string[] => {
-  const sheet = workbook.Sheets[sheetName];
-  const data: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1 });
-  if (data && data.length > 0) {
-    return data[0].map(h => String(h).trim()).filter(h => h !== '');
-  }
-  return [];
-};
-
-export const processSheet = (workbook: XLSX.WorkBook, sheetName: string, mapping: ColumnMapping): ProcessResult => {
-  const sheet = workbook.Sheets[sheetName];
-  const jsonData = XLSX.utils.sheet_to_json<ExcelRow>(sheet);
+// Rows between progress notifications
+const PROGRESS_STEP = 2000;
+
+export const processSheets = (
+  sources: SheetSource[],
+  mapping: ColumnMapping,
+  internalClients: InternalClient[],
+  statusOptions: StatusOptions,
+  dedupStrategy: DedupStrategy,
+  onProgress?: (progress: ProcessingProgress) => void
+): ProcessResult => {
+  const internalCodes = getInternalClientCodes(internalClients);
+  const isMultiSource = sources.length > 1;
+
+  // Per-source counters for the audit breakdown
+  const breakdown = new Map<string, SourceBreakdown>();
+  let subtotalRows = 0;
+  const jsonData = sources.flatMap(source => {
+    const layout = getSheetLayout(source);
+    const sheet = readSheetRows(source.workbook.Sheets[source.sheetName], layout, mapping.otNumber);
+    subtotalRows += sheet.subtotalRows;
+    breakdown.set(getSourceLabel(source), {
+      fileName: source.fileName,
+      sheetName: source.sheetName,
+      totalRows: 0,
+      emptyRows: 0,
+      subtotalRows: sheet.subtotalRows,
+      headerRow: layout.headerRow,
+      headerRowCount: layout.headerRowCount,
+      duplicatesRemoved: 0,
+      uniqueOTs: 0
+    });
+    return sheet.rows.map(row => ({ row, source }));
+  });
   
+  // Separators of the amount column, detected over every selected sheet when set to auto;
+  // delimited text files keep the decimal separator chosen when they were imported
+  const isAutoFormat = !mapping.numberFormat || mapping.numberFormat === 'auto';
+  const detectedFormat = mapping.numberFormat && mapping.numberFormat !== 'auto'
+    ? mapping.numberFormat
+    : detectNumberFormat(mapping.amount ? jsonData.filter(({ source }) => !source.numberFormat).map(({ row }) => row[mapping.amount]) : []);
+  const amountFormatOf = (source: SheetSource) => (isAutoFormat && source.numberFormat) || detectedFormat;
+  const defaultCurrency = mapping.amountCurrency || BASE_CURRENCY;
+
+  // Day/month order of each mapped date column; auto checks the whole column for consistency
+  const dateColumns = new Map<string, DateColumnReport>();
+  [mapping.promisedDate, mapping.secondPromisedDate, mapping.realDeliveryDate, mapping.billingDate].forEach(column => {
+    if (!column || dateColumns.has(column)) return;
+    const configured = mapping.dateFormats?.[column] || 'auto';
+    const detection = detectDateFormat(jsonData.map(({ row }) => row[column]));
+    dateColumns.set(column, {
+      column,
+      configured,
+      format: configured === 'auto' ? detection.format : configured,
+      ambiguous: detection.ambiguous,
+      inconsistent: detection.inconsistent,
+      unparsed: 0,
+      examples: detection.examples
+    });
+  });
+
   const allRows: ParsedOT[] = [];
-  const otMapForCompliance = new Map<string, ParsedOT>();
+  const otGroups = new Map<string, ParsedOT[]>(); // Rows per OT number, in reading order
 
   let totalRows = 0;
   let emptyRows = 0;
   let duplicatesRemovedForCompliance = 0;
   const removedOtIds: string[] = [];
+  const issues: DataQualityIssue[] = [];
+  const now = new Date();
+
+  // Describes a discarded row; the file and sheet are only relevant when several sources are merged
+  const describeRemoved = (ot: ParsedOT, reason: string) => {
+    const label = getSourceLabel({ fileName: ot.sourceFile, sheetName: ot.sourceSheet });
+    breakdown.get(label)!.duplicatesRemoved++;
+    return `${ot.id} (${reason}) [${isMultiSource ? getRowReference(ot) : `fila ${ot.sourceRow}`}]`;
+  };
 
-  jsonData.forEach((row) => {
+  jsonData.forEach(({ row, source }, index) => {
+    if (onProgress && index % PROGRESS_STEP === 0) {
+      onProgress({ stage: 'parsing', done: index, total: jsonData.length });
+    }
     totalRows++;
+    const sourceStats = breakdown.get(getSourceLabel(source))!;
+    sourceStats.totalRows++;
 
     const otNumber = String(row[mapping.otNumber] || '').trim();
     if (!otNumber) {
         emptyRows++;
+        sourceStats.emptyRows++;
         return; 
     }
 
+    // SheetJS keeps the 0-based sheet row on each object, even when blank rows are skipped
+    const rowNumber = (row.__rowNum__ ?? 0) + 1;
+    const flag = (type: DataQualityIssueType, field: string, message: string) => {
+      issues.push({
+        type,
+        sourceFile: source.fileName,
+        sourceSheet: source.sheetName,
+        rowNumber,
+        field,
+        otId: otNumber,
+        value: String(row[field] ?? ''),
+        message
+      });
+    };
+    const readDate = (field?: string) => {
+      if (!field) return null;
+      const columnReport = dateColumns.get(field)!;
+      const date = parseDateValue(row[field], columnReport.format);
+      if (!date && String(row[field] ?? '').trim() !== '') {
+        columnReport.unparsed++;
+        flag('unparsedDate', field, `"${String(row[field]).trim()}" no se reconoce como fecha (${DATE_FORMAT_LABELS[columnReport.format]})`);
+      }
+      return date;
+    };
+
     const clientCode = String(row[mapping.clientCode] || '').trim();
     const folio = mapping.folio ? String(row[mapping.folio] || '').trim() : '';
     const workshopName = String(row[mapping.workshop] || 'Sin Taller Asignado').trim();
-    const amount = mapping.amount ? parseAmount(row[mapping.amount]) : 0;
+    const parsedAmount = mapping.amount ? parseLocaleAmount(row[mapping.amount], amountFormatOf(source)) : { value: 0, partial: false };
+    const amount = parsedAmount.value;
+    const currency = mapping.currencyColumn ? normalizeCurrency(row[mapping.currencyColumn], defaultCurrency) : defaultCurrency;
     const otType = mapping.otType ? String(row[mapping.otType] || '').trim() : 'N/A';
     const invoiceId = mapping.invoiceNumber ? String(row[mapping.invoiceNumber] || '').trim() : undefined;
     
-    const isInternal = INTERNAL_CLIENT_CODES.includes(clientCode);
-    const estimatedDate = parseExcelDate(row[mapping.promisedDate]);
+    const isInternal = internalCodes.has(clientCode);
+    const estimatedDate = readDate(mapping.promisedDate);
     // Parse second date if mapped
-    const secondEstimatedDate = mapping.secondPromisedDate ? parseExcelDate(row[mapping.secondPromisedDate]) : null;
+    const secondEstimatedDate = readDate(mapping.secondPromisedDate);
     
-    const realDate = parseExcelDate(row[mapping.realDeliveryDate]);
-    const billingDate = mapping.billingDate ? parseExcelDate(row[mapping.billingDate]) : null;
+    const realDate = readDate(mapping.realDeliveryDate);
+    const billingDate = readDate(mapping.billingDate);
+
+    // Row-level validations (the row is still processed)
+    if (!String(row[mapping.workshop] ?? '').trim()) {
+      flag('missingWorkshop', mapping.workshop, 'Sin taller; se asigna "Sin Taller Asignado"');
+    }
+    if (mapping.amount) {
+      if (parsedAmount.partial) {
+        flag('partialAmount', mapping.amount, `Se descartó parte del texto; importe leído: ${amount}`);
+      }
+      if (amount <= 0) {
+        flag('nonPositiveAmount', mapping.amount, `Importe ${amount}`);
+      }
+    }
+    if (isDeliveryTooEarly(realDate, estimatedDate)) {
+      flag('deliveryBeforePromise', mapping.realDeliveryDate, `Entrega ${realDate!.toLocaleDateString('es-PY')} vs prometida ${estimatedDate!.toLocaleDateString('es-PY')}`);
+    }
+    if (isFutureDate(realDate, now)) {
+      flag('futureDelivery', mapping.realDeliveryDate, `Entrega registrada para ${realDate!.toLocaleDateString('es-PY')}`);
+    }
 
     const customValues: Record<string, string> = {};
     mapping.additionalFilters.forEach(field => {
@@ -136,43 +243,65 @@ export const processSheet = (workbook: XLSX.WorkBook, sheetName: string, mapping
       secondEstimatedDate,
       realDate,
       billingDate,
-      status: 'Procesado',
+      status: classifyOT({ estimatedDate, secondEstimatedDate, realDate }, statusOptions),
       clientCode,
       isInternalClient: isInternal,
       amount,
+      originalAmount: amount,
+      currency,
       otType,
-      customValues
+      customValues,
+      sourceFile: source.fileName,
+      sourceSheet: source.sheetName,
+      sourceRow: rowNumber
     };
 
     // 1. Add to All Rows (For Financials - assumes one row per invoice/line item)
     allRows.push(parsedRow);
 
-    // 2. Logic for Compliance (Unique OTs)
-    if (otMapForCompliance.has(otNumber)) {
-        duplicatesRemovedForCompliance++;
-        const existingOT = otMapForCompliance.get(otNumber)!;
-
-        // Priority Logic for Compliance Data:
-        if (existingOT.isInternalClient && !parsedRow.isInternalClient) {
-            removedOtIds.push(`${existingOT.id} (Reemplazado interno por externo)`);
-            otMapForCompliance.set(otNumber, parsedRow);
-        } else if (!existingOT.isInternalClient && parsedRow.isInternalClient) {
-             removedOtIds.push(`${parsedRow.id} (Duplicado interno ignorado)`);
-        } else {
-            // Tie-breaker: If new row has a Real Date and existing doesn't, take new.
-            if (!existingOT.realDate && parsedRow.realDate) {
-                 removedOtIds.push(`${existingOT.id} (Reemplazado por registro con fecha entrega)`);
-                 otMapForCompliance.set(otNumber, parsedRow);
-            } else {
-                removedOtIds.push(`${parsedRow.id} (Duplicado ignorado)`);
-            }
-        }
+    // 2. Group by OT number for Compliance (Unique OTs)
+    const group = otGroups.get(otNumber);
+    if (group) {
+        group.push(parsedRow);
     } else {
-        otMapForCompliance.set(otNumber, parsedRow);
+        otGroups.set(otNumber, [parsedRow]);
     }
   });
 
-  const uniqueOTs = Array.from(otMapForCompliance.values());
+  // 3. Resolve duplicates with the configured strategy
+  const uniqueOTs: ParsedOT[] = [];
+  const dedupResolutions: DedupResolution[] = [];
+  let groupIndex = 0;
+  otGroups.forEach((rows, otId) => {
+    if (onProgress && groupIndex++ % PROGRESS_STEP === 0) {
+      onProgress({ stage: 'deduplicating', done: groupIndex - 1, total: otGroups.size });
+    }
+    if (rows.length === 1) {
+        uniqueOTs.push(rows[0]);
+        return;
+    }
+    const resolution = resolveDuplicates(rows, dedupStrategy);
+    duplicatesRemovedForCompliance += resolution.discarded.length;
+    resolution.discarded.forEach(({ ot, reason }) => removedOtIds.push(describeRemoved(ot, reason)));
+    // Merged dates need a fresh classification
+    uniqueOTs.push(dedupStrategy.mode === 'aggregate'
+        ? { ...resolution.ot, status: classifyOT(resolution.ot, statusOptions) }
+        : resolution.ot);
+    dedupResolutions.push({
+      otId,
+      rows: rows.length,
+      outcome: resolution.outcome,
+      kept: getRowReference(resolution.ot),
+      discarded: resolution.discarded.map(({ ot, reason }) => ({ reference: getRowReference(ot), reason }))
+    });
+  });
+
+  uniqueOTs.forEach(ot => {
+    breakdown.get(getSourceLabel({ fileName: ot.sourceFile, sheetName: ot.sourceSheet }))!.uniqueOTs++;
+  });
+
+  onProgress?.({ stage: 'stats', done: 0, total: 1 });
+  const summary = calculateStats(uniqueOTs);
 
   const internalClientsByCode: Record<string, number> = {};
   let internalClientsCount = 0;
@@ -190,88 +319,164 @@ export const processSheet = (workbook: XLSX.WorkBook, sheetName: string, mapping
     report: {
         totalRows,
         emptyRows,
+        subtotalRows,
         duplicatesRemovedForCompliance,
         removedOtIds,
         internalClientsCount,
-        internalClientsByCode
+        internalClientsByCode,
+        sources: Array.from(breakdown.values()),
+        dedupStrategy,
+        dedupResolutions,
+        issues,
+        dateColumns: Array.from(dateColumns.values()),
+        summary
     }
   };
 };
 
-export const calculateStats = (ots: ParsedOT[]): GlobalStats => {
-  const workshopMap = new Map<string, { total: number; onTime: number; late: number; pending: number; amount: number }>();
+const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return 0;
+  const index = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(Math.max(index, 0), sorted.length - 1)];
+};
+
+export const summarizeDelays = (delays: number[]): DelayStats => {
+  if (delays.length === 0) {
+    return { count: 0, average: 0, median: 0, p90: 0, max: 0 };
+  }
+  const sorted = [...delays].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  const average = sorted.reduce((sum, d) => sum + d, 0) / sorted.length;
+  return {
+    count: sorted.length,
+    average: parseFloat(average.toFixed(1)),
+    median,
+    p90: percentile(sorted, 90),
+    max: sorted[sorted.length - 1]
+  };
+};
+
+export const DELAY_BUCKETS: { label: string; min: number; max: number }[] = [
+  { label: '1-3 días', min: 1, max: 3 },
+  { label: '4-7 días', min: 4, max: 7 },
+  { label: '8-15 días', min: 8, max: 15 },
+  { label: '16-30 días', min: 16, max: 30 },
+  { label: '31-60 días', min: 31, max: 60 },
+  { label: '> 60 días', min: 61, max: Infinity }
+];
+
+export const buildDelayHistogram = (ots: ParsedOT[]): { label: string; count: number }[] => {
+  const counts = DELAY_BUCKETS.map(bucket => ({ label: bucket.label, count: 0 }));
+  ots.forEach(ot => {
+    const delay = ot.status.daysLate;
+    if (delay === null) return;
+    const idx = DELAY_BUCKETS.findIndex(bucket => delay >= bucket.min && delay <= bucket.max);
+    if (idx >= 0) counts[idx].count++;
+  });
+  return counts;
+};
 
-  let globalTotal = 0;
-  let globalOnTime = 0;
-  let globalLate = 0;
-  let globalPending = 0;
-  let globalAmount = 0;
+interface StatusCounters {
+  total: number;
+  onTime: number;
+  late: number;
+  pendingOverdue: number;
+  pendingOnTrack: number;
+  noDate: number;
+  amount: number;
+}
+
+const emptyCounters = (): StatusCounters => ({
+  total: 0, onTime: 0, late: 0, pendingOverdue: 0, pendingOnTrack: 0, noDate: 0, amount: 0
+});
+
+const complianceRateOf = (counters: StatusCounters) => {
+  const rate = counters.total > 0 ? (counters.onTime / counters.total) * 100 : 0;
+  return parseFloat(rate.toFixed(2));
+};
+
+// Aggregates the status already stored in each OT (see applyStatus)
+export const calculateStats = (ots: ParsedOT[]): GlobalStats => {
+  const workshopMap = new Map<string, StatusCounters>();
+  const workshopDelays = new Map<string, number[]>();
+  const global = emptyCounters();
+  const globalDelays: number[] = [];
 
   ots.forEach((ot) => {
-    globalAmount += ot.amount;
-    
     if (!workshopMap.has(ot.workshop)) {
-      workshopMap.set(ot.workshop, { total: 0, onTime: 0, late: 0, pending: 0, amount: 0 });
+      workshopMap.set(ot.workshop, emptyCounters());
+      workshopDelays.set(ot.workshop, []);
     }
 
     const stats = workshopMap.get(ot.workshop)!;
-    stats.total++;
-    stats.amount += ot.amount;
-    globalTotal++;
-
-    // LOGIC UPDATE: Use secondEstimatedDate if available, otherwise estimatedDate
-    const targetDate = ot.secondEstimatedDate || ot.estimatedDate;
-
-    if (ot.realDate && targetDate) {
-      const target = new Date(targetDate);
-      const real = new Date(ot.realDate);
-      target.setHours(0, 0, 0, 0);
-      real.setHours(0, 0, 0, 0);
-
-      if (real <= target) {
-        stats.onTime++;
-        globalOnTime++;
-      } else {
-        stats.late++;
-        globalLate++;
-      }
-    } else if (targetDate && !ot.realDate) {
-      // Has target date but no real date -> Pending (or potentially late if today > target, but classified as Pending delivery)
-      stats.pending++;
-      globalPending++;
-    } else {
-      // No target date at all
-      stats.pending++;
-      globalPending++;
+    const { status, daysLate } = ot.status;
+    [stats, global].forEach(counters => {
+      counters.total++;
+      counters.amount += ot.amount;
+      counters[status]++;
+    });
+
+    if (daysLate !== null) {
+      workshopDelays.get(ot.workshop)!.push(daysLate);
+      globalDelays.push(daysLate);
     }
   });
 
   const workshops: WorkshopStats[] = [];
   workshopMap.forEach((val, key) => {
-    const complianceRate = val.total > 0 ? (val.onTime / val.total) * 100 : 0;
-    
     workshops.push({
       name: key,
       totalOTs: val.total,
       onTime: val.onTime,
       late: val.late,
-      pending: val.pending,
-      complianceRate: parseFloat(complianceRate.toFixed(2)),
-      totalAmount: val.amount
+      pending: val.pendingOverdue + val.pendingOnTrack + val.noDate,
+      pendingOverdue: val.pendingOverdue,
+      pendingOnTrack: val.pendingOnTrack,
+      noDate: val.noDate,
+      complianceRate: complianceRateOf(val),
+      totalAmount: val.amount,
+      delay: summarizeDelays(workshopDelays.get(key)!)
     });
   });
 
   workshops.sort((a, b) => b.totalOTs - a.totalOTs);
 
-  const averageCompliance = globalTotal > 0 ? (globalOnTime / globalTotal) * 100 : 0;
-
   return {
-    totalOTs: globalTotal,
-    totalOnTime: globalOnTime,
-    totalLate: globalLate,
-    totalPending: globalPending,
-    averageCompliance: parseFloat(averageCompliance.toFixed(2)),
-    totalAmount: globalAmount,
+    totalOTs: global.total,
+    totalOnTime: global.onTime,
+    totalLate: global.late,
+    totalPending: global.pendingOverdue + global.pendingOnTrack + global.noDate,
+    totalPendingOverdue: global.pendingOverdue,
+    totalPendingOnTrack: global.pendingOnTrack,
+    totalNoDate: global.noDate,
+    averageCompliance: complianceRateOf(global),
+    totalAmount: global.amount,
+    delay: summarizeDelays(globalDelays),
     workshops
   };
-};
\ No newline at end of file
+};
+
+// Runs calculateStats once per calendar month, grouping OTs by the chosen date.
+// OTs without that date are left out of the trend.
+export const calculateMonthlyTrend = (ots: ParsedOT[], field: PeriodDateField): MonthlyTrendPoint[] => {
+  const byMonth = new Map<string, ParsedOT[]>();
+  ots.forEach(ot => {
+    const date = getPeriodDate(ot, field);
+    if (!date || isNaN(date.getTime())) return;
+    const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    if (!byMonth.has(key)) byMonth.set(key, []);
+    byMonth.get(key)!.push(ot);
+  });
+
+  return Array.from(byMonth.keys())
+    .sort()
+    .map(key => {
+      const [year, month] = key.split('-').map(Number);
+      return {
+        key,
+        label: `${MONTH_NAMES[month - 1].slice(0, 3)} ${year}`,
+        stats: calculateStats(byMonth.get(key)!)
+      };
+    });
+};
@@ -0,0 +1,23 @@
+import { GridSettings } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const STORAGE_KEY = 'grid-settings';
+
+export const DEFAULT_GRID_SETTINGS: GridSettings = {
+  visibleColumns: null,
+  sort: null
+};
+
+// One entry per table, keyed by grid id
+export const loadGridSettings = (gridId: string): GridSettings => {
+  const stored = loadFromStorage<Record<string, Partial<GridSettings>>>(STORAGE_KEY, {})[gridId] || {};
+  return {
+    visibleColumns: Array.isArray(stored.visibleColumns) ? stored.visibleColumns : null,
+    sort: stored.sort && (stored.sort.direction === 'asc' || stored.sort.direction === 'desc') ? stored.sort : null
+  };
+};
+
+export const saveGridSettings = (gridId: string, settings: GridSettings): void => {
+  const all = loadFromStorage<Record<string, GridSettings>>(STORAGE_KEY, {});
+  saveToStorage(STORAGE_KEY, { ...all, [gridId]: settings });
+};
@@ -0,0 +1,28 @@
+import { InternalClient } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const STORAGE_KEY = 'internal-clients';
+
+// Initial registry, used until the user edits the list in the settings panel
+export const DEFAULT_INTERNAL_CLIENTS: InternalClient[] = [
+  { code: 'C0008157', label: 'Reclamos' },
+  { code: 'C0001114', label: 'Interno' },
+  { code: 'C0001140', label: 'Interno' }
+];
+
+export const loadInternalClients = (): InternalClient[] => {
+  const stored = loadFromStorage<InternalClient[]>(STORAGE_KEY, DEFAULT_INTERNAL_CLIENTS);
+  return Array.isArray(stored) ? stored : DEFAULT_INTERNAL_CLIENTS;
+};
+
+export const saveInternalClients = (clients: InternalClient[]): void => {
+  saveToStorage(STORAGE_KEY, clients);
+};
+
+export const getInternalClientCodes = (clients: InternalClient[]): Set<string> => {
+  return new Set(clients.map(c => c.code.trim()).filter(code => code !== ''));
+};
+
+export const getInternalClientLabel = (clients: InternalClient[], code: string): string | undefined => {
+  return clients.find(c => c.code === code)?.label || undefined;
+};
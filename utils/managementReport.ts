@@ -0,0 +1,200 @@
+import * as XLSX from 'xlsx';
+import { ParsedOT, GlobalStats, WorkshopStats, ProcessingReport, InternalClient, DedupResolution } from '../types';
+import {
+  ExportColumn, ExportCell, ExportValue, buildTableSheet, buildListSheet,
+  getAmountNumberFormat, INTEGER_NUMBER_FORMAT, PERCENT_NUMBER_FORMAT
+} from './excelExport';
+import { getInternalClientLabel } from './internalClients';
+import { describeDedupStrategy } from './dedupStrategy';
+import { DATA_QUALITY_LABELS, ALL_DATA_QUALITY_TYPES, countIssuesByType } from './dataQuality';
+
+export interface ManagementReportInput {
+  fileName?: string;
+  generatedAt: Date;
+  asOfDate: Date; // Cut-off date used to classify pending OTs
+  reportingCurrency: string;
+  filterLabels: string[]; // Active filters as shown in the dashboard chips
+  complianceStats: GlobalStats;
+  complianceTarget: number; // Global SLA target (%)
+  getWorkshopTarget: (workshop: string) => number;
+  complianceRows: ParsedOT[];
+  financialRows: ParsedOT[];
+  claimsRows: ParsedOT[];
+  claimsByCategory: { name: string; count: number; uniqueOTs: number; amount: number }[];
+  getClaimCategory: (ot: ParsedOT) => string | undefined;
+  customFields: string[];
+  comparison?: { currentLabel: string; previousLabel: string; previousStats: GlobalStats; previousAmount: number };
+  report?: ProcessingReport;
+  internalClients: InternalClient[];
+}
+
+// Detail columns shared by the single-table downloads and the management workbook
+export const getOTExportColumns = (
+  reportingCurrency: string,
+  customFields: string[],
+  getClaimCategory?: (ot: ParsedOT) => string | undefined
+): ExportColumn<ParsedOT>[] => {
+  const amountFormat = getAmountNumberFormat(reportingCurrency);
+  return [
+    { header: 'Nro OT', value: ot => ot.id, width: 12 },
+    { header: 'Taller', value: ot => ot.workshop, width: 20 },
+    { header: 'Cliente', value: ot => ot.clientCode, width: 12 },
+    { header: 'Tipo OT', value: ot => ot.otType, width: 14 },
+    { header: 'Folio', value: ot => ot.folio },
+    { header: 'Factura', value: ot => ot.invoiceId },
+    { header: 'Fecha Estimada', value: ot => ot.estimatedDate, width: 12 },
+    { header: '2da Fecha Estimada', value: ot => ot.secondEstimatedDate, width: 12 },
+    { header: 'Fecha Real', value: ot => ot.realDate, width: 12 },
+    { header: 'Fecha Facturación', value: ot => ot.billingDate, width: 12 },
+    { header: `Importe (${reportingCurrency})`, value: ot => ot.amount, format: amountFormat, width: 16 },
+    { header: 'Importe Original', value: ot => ot.originalAmount, format: ot => getAmountNumberFormat(ot.currency), width: 16 },
+    { header: 'Moneda Original', value: ot => ot.currency },
+    { header: 'Estado', value: ot => ot.status.label, width: 16 },
+    { header: 'Días de Atraso', value: ot => ot.status.daysLate, format: INTEGER_NUMBER_FORMAT },
+    { header: 'Motivo Estado', value: ot => ot.status.reason, width: 40 },
+    ...(getClaimCategory ? [{ header: 'Categoría Reclamo', value: getClaimCategory, width: 18 }] : []),
+    { header: 'Archivo Origen', value: ot => ot.sourceFile, width: 20 },
+    { header: 'Hoja Origen', value: ot => ot.sourceSheet },
+    { header: 'Fila Origen', value: ot => ot.sourceRow },
+    ...customFields.map((field): ExportColumn<ParsedOT> => ({ header: field, value: ot => ot.customValues[field] }))
+  ];
+};
+
+const getWorkshopColumns = (reportingCurrency: string, getTarget: (workshop: string) => number): ExportColumn<WorkshopStats>[] => [
+  { header: 'Taller', value: w => w.name, width: 24 },
+  { header: 'OTs', value: w => w.totalOTs, format: INTEGER_NUMBER_FORMAT },
+  { header: 'A Tiempo', value: w => w.onTime, format: INTEGER_NUMBER_FORMAT },
+  { header: 'Retraso', value: w => w.late, format: INTEGER_NUMBER_FORMAT },
+  { header: 'Pend. Vencidas', value: w => w.pendingOverdue, format: INTEGER_NUMBER_FORMAT },
+  { header: 'Pend. en Plazo', value: w => w.pendingOnTrack, format: INTEGER_NUMBER_FORMAT },
+  { header: 'Sin Fecha', value: w => w.noDate, format: INTEGER_NUMBER_FORMAT },
+  { header: 'Cumplimiento', value: w => w.complianceRate, format: PERCENT_NUMBER_FORMAT, width: 14 },
+  { header: 'Meta', value: w => getTarget(w.name), format: PERCENT_NUMBER_FORMAT },
+  { header: `Importe (${reportingCurrency})`, value: w => w.totalAmount, format: getAmountNumberFormat(reportingCurrency), width: 18 },
+  { header: 'Atraso Promedio (días)', value: w => (w.delay.count > 0 ? w.delay.average : null), format: '0.0', width: 20 },
+  { header: 'Atraso Mediana (días)', value: w => (w.delay.count > 0 ? w.delay.median : null), format: '0.0', width: 20 },
+  { header: 'Atraso P90 (días)', value: w => (w.delay.count > 0 ? w.delay.p90 : null), format: '0.0', width: 18 },
+  { header: 'Atraso Máximo (días)', value: w => (w.delay.count > 0 ? w.delay.max : null), format: INTEGER_NUMBER_FORMAT, width: 18 }
+];
+
+// One row per discarded record, or one per OT when every row was merged into it
+interface DuplicateRow {
+  resolution: DedupResolution;
+  discarded?: { reference: string; reason: string };
+}
+
+const DUPLICATE_COLUMNS: ExportColumn<DuplicateRow>[] = [
+  { header: 'Nro OT', value: row => row.resolution.otId, width: 12 },
+  { header: 'Filas', value: row => row.resolution.rows, format: INTEGER_NUMBER_FORMAT },
+  { header: 'Resolución', value: row => row.resolution.outcome, width: 40 },
+  { header: 'Registro Conservado', value: row => row.resolution.kept, width: 30 },
+  { header: 'Registro Descartado', value: row => row.discarded?.reference, width: 30 },
+  { header: 'Motivo', value: row => row.discarded?.reason, width: 40 }
+];
+
+const integer = (value: number): ExportCell => ({ value, format: INTEGER_NUMBER_FORMAT });
+const percent = (value: number): ExportCell => ({ value, format: PERCENT_NUMBER_FORMAT });
+const days = (value: number): ExportCell => ({ value, format: '0.0' });
+
+const buildSummarySheet = (input: ManagementReportInput): XLSX.WorkSheet => {
+  const { complianceStats: stats, comparison, reportingCurrency } = input;
+  const amount = (value: number): ExportCell => ({ value, format: getAmountNumberFormat(reportingCurrency) });
+  const financialTotal = input.financialRows.reduce((sum, ot) => sum + ot.amount, 0);
+  const claimsTotal = input.claimsRows.reduce((sum, ot) => sum + ot.amount, 0);
+
+  // Indicator, current value and, when comparing, the reference period value
+  const kpi = (label: string, current: ExportCell, previous?: (s: GlobalStats) => ExportCell): (ExportValue | ExportCell)[] =>
+    comparison && previous ? [label, current, previous(comparison.previousStats)] : [label, current];
+
+  return buildListSheet([
+    ['Reporte de Gestión de OTs'],
+    ['Archivo', input.fileName || ''],
+    ['Generado', input.generatedAt],
+    ['Fecha de corte', input.asOfDate],
+    ['Moneda de reporte', reportingCurrency],
+    [],
+    ['Filtros activos'],
+    ...(input.filterLabels.length > 0 ? input.filterLabels.map(label => ['', label]) : [['', 'Sin filtros (todos los datos)']]),
+    [],
+    comparison ? ['Indicador', comparison.currentLabel, comparison.previousLabel] : ['Indicador', 'Valor'],
+    kpi('OTs evaluadas', integer(stats.totalOTs), s => integer(s.totalOTs)),
+    kpi('A tiempo', integer(stats.totalOnTime), s => integer(s.totalOnTime)),
+    kpi('Con retraso', integer(stats.totalLate), s => integer(s.totalLate)),
+    kpi('Pendientes vencidas', integer(stats.totalPendingOverdue), s => integer(s.totalPendingOverdue)),
+    kpi('Pendientes en plazo', integer(stats.totalPendingOnTrack), s => integer(s.totalPendingOnTrack)),
+    kpi('Sin fecha', integer(stats.totalNoDate), s => integer(s.totalNoDate)),
+    kpi('Cumplimiento', percent(stats.averageCompliance), s => percent(s.averageCompliance)),
+    kpi('Meta de cumplimiento', percent(input.complianceTarget)),
+    kpi('Atraso promedio (días)', days(stats.delay.average), s => days(s.delay.average)),
+    kpi('Atraso mediana (días)', days(stats.delay.median), s => days(s.delay.median)),
+    kpi('Atraso P90 (días)', days(stats.delay.p90), s => days(s.delay.p90)),
+    kpi('Registros facturados', integer(input.financialRows.length)),
+    comparison
+      ? ['Importe facturado', amount(financialTotal), amount(comparison.previousAmount)]
+      : ['Importe facturado', amount(financialTotal)],
+    kpi('Reclamos (registros)', integer(input.claimsRows.length)),
+    kpi('OTs con reclamo', integer(new Set(input.claimsRows.map(ot => ot.id)).size)),
+    kpi('Importe de reclamos', amount(claimsTotal)),
+    [],
+    ['Reclamos por categoría', 'Registros', 'OTs', 'Importe'],
+    ...input.claimsByCategory.map(c => [c.name, integer(c.count), integer(c.uniqueOTs), amount(c.amount)])
+  ], [28, 22, 22, 18]);
+};
+
+const buildAuditSheet = (report: ProcessingReport, internalClients: InternalClient[]): XLSX.WorkSheet => {
+  const issueCounts = countIssuesByType(report.issues);
+  return buildListSheet([
+    ['Auditoría del Procesamiento'],
+    ['Filas leídas', integer(report.totalRows)],
+    ['Filas vacías', integer(report.emptyRows)],
+    ['Filas de totales ignoradas', integer(report.subtotalRows)],
+    ['Duplicados eliminados (cumplimiento)', integer(report.duplicatesRemovedForCompliance)],
+    ['Filas únicas', integer(report.totalRows - report.emptyRows - report.duplicatesRemovedForCompliance)],
+    ['OTs con duplicados', integer(report.dedupResolutions.length)],
+    ['Criterio de duplicados', describeDedupStrategy(report.dedupStrategy)],
+    [],
+    ['Clientes internos', 'Nombre', 'Registros'],
+    ...Object.entries(report.internalClientsByCode).map(([code, count]) => [code, getInternalClientLabel(internalClients, code) || '', integer(count)]),
+    ['Total', '', integer(report.internalClientsCount)],
+    [],
+    ['Fuentes', 'Hoja', 'Fila Encabezado', 'Filas', 'Vacías', 'Totales', 'Duplicados', 'OTs Únicas'],
+    ...report.sources.map(source => [
+      source.fileName, source.sheetName,
+      source.headerRowCount === 2 ? `${source.headerRow}-${source.headerRow + 1}` : source.headerRow,
+      integer(source.totalRows), integer(source.emptyRows), integer(source.subtotalRows),
+      integer(source.duplicatesRemoved), integer(source.uniqueOTs)
+    ]),
+    [],
+    ['Calidad de datos', 'Observaciones'],
+    ...ALL_DATA_QUALITY_TYPES.map(type => [DATA_QUALITY_LABELS[type], integer(issueCounts[type])])
+  ], [36, 24, 16, 10, 10, 10, 12, 12]);
+};
+
+// Workbook for the monthly meeting: summary, per-workshop stats, the three detail tables and the audit
+export const buildManagementWorkbook = (input: ManagementReportInput): XLSX.WorkBook => {
+  const wb = XLSX.utils.book_new();
+  const columns = getOTExportColumns(input.reportingCurrency, input.customFields);
+
+  XLSX.utils.book_append_sheet(wb, buildSummarySheet(input), 'Resumen');
+  XLSX.utils.book_append_sheet(
+    wb,
+    buildTableSheet(input.complianceStats.workshops, getWorkshopColumns(input.reportingCurrency, input.getWorkshopTarget)),
+    'Talleres'
+  );
+  XLSX.utils.book_append_sheet(wb, buildTableSheet(input.complianceRows, columns), 'Cumplimiento');
+  XLSX.utils.book_append_sheet(wb, buildTableSheet(input.financialRows, columns), 'Financiero');
+  XLSX.utils.book_append_sheet(
+    wb,
+    buildTableSheet(input.claimsRows, getOTExportColumns(input.reportingCurrency, input.customFields, input.getClaimCategory)),
+    'Reclamos'
+  );
+
+  if (input.report) {
+    const duplicates: DuplicateRow[] = input.report.dedupResolutions.flatMap(resolution =>
+      resolution.discarded.length > 0 ? resolution.discarded.map(discarded => ({ resolution, discarded })) : [{ resolution }]
+    );
+    XLSX.utils.book_append_sheet(wb, buildAuditSheet(input.report, input.internalClients), 'Auditoría');
+    XLSX.utils.book_append_sheet(wb, buildTableSheet(duplicates, DUPLICATE_COLUMNS), 'Duplicados');
+  }
+  return wb;
+};
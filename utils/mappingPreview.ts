@@ -0,0 +1,140 @@
+import { ColumnMapping, DateFormat, ExcelRow, InternalClient, MappingSample } from '../types';
+import { parseDateValue, detectDateFormat, DateFormatDetection, DATE_FORMAT_LABELS } from './dateParsing';
+import { parseLocaleAmount, detectNumberFormat, normalizeCurrency, formatCurrency, BASE_CURRENCY } from './currency';
+import { getInternalClientCodes, getInternalClientLabel } from './internalClients';
+
+type PreviewKind = 'text' | 'client' | 'date' | 'amount';
+
+type PreviewField = 'otNumber' | 'clientCode' | 'workshop' | 'otType' | 'amount'
+  | 'promisedDate' | 'secondPromisedDate' | 'realDeliveryDate' | 'billingDate';
+
+const PREVIEW_FIELDS: { field: PreviewField; label: string; kind: PreviewKind; required: boolean }[] = [
+  { field: 'otNumber', label: 'Número de OT', kind: 'text', required: true },
+  { field: 'clientCode', label: 'Código Cliente', kind: 'client', required: true },
+  { field: 'workshop', label: 'Nombre Taller', kind: 'text', required: true },
+  { field: 'otType', label: 'Tipo OT', kind: 'text', required: false },
+  { field: 'amount', label: 'Importe', kind: 'amount', required: false },
+  { field: 'promisedDate', label: 'Fecha Prometida', kind: 'date', required: true },
+  { field: 'secondPromisedDate', label: '2da Fecha Estimada', kind: 'date', required: false },
+  { field: 'realDeliveryDate', label: 'Fecha Entrega Real', kind: 'date', required: true },
+  { field: 'billingDate', label: 'Fecha Facturación', kind: 'date', required: false }
+];
+
+// Examples shown per field
+const EXAMPLE_COUNT = 3;
+// Share of empty values in a required field that triggers a warning
+const EMPTY_WARNING_SHARE = 0.2;
+
+export interface FieldPreviewExample {
+  raw: string;
+  parsed: string;
+  ok: boolean;
+}
+
+export interface FieldPreview {
+  field: PreviewField;
+  label: string;
+  column: string;
+  required: boolean;
+  examples: FieldPreviewExample[];
+  total: number; // Rows with an OT number in the sample
+  empty: number;
+  invalid: number; // Non-empty values that could not be read
+  dateFormat?: { configured: DateFormat; detection: DateFormatDetection }; // Day/month order check of date fields
+}
+
+const isEmpty = (value: any) => value === null || value === undefined || String(value).trim() === '';
+
+const showRaw = (value: any) => (value instanceof Date ? value.toLocaleDateString('es-PY') : String(value).trim());
+
+// Reads the sample the same way processSheets will, with the formats currently chosen in the mapper
+export const buildFieldPreviews = (mapping: ColumnMapping, sample: MappingSample, internalClients: InternalClient[]): FieldPreview[] => {
+  // Rows without an OT number are skipped when processing, so they do not count here either
+  const rows = mapping.otNumber ? sample.rows.filter(row => !isEmpty(row[mapping.otNumber])) : sample.rows;
+  const internalCodes = getInternalClientCodes(internalClients);
+
+  const amountFormat = mapping.numberFormat && mapping.numberFormat !== 'auto'
+    ? mapping.numberFormat
+    : sample.numberFormat ?? detectNumberFormat(rows.map(row => row[mapping.amount]));
+
+  const getReader = (kind: PreviewKind, column: string): ((row: ExcelRow) => { parsed: string; ok: boolean }) => {
+    switch (kind) {
+      case 'client':
+        return row => {
+          const code = String(row[column]).trim();
+          if (!internalCodes.has(code)) return { parsed: 'Externo', ok: true };
+          const label = getInternalClientLabel(internalClients, code);
+          return { parsed: `Interno${label ? ` (${label})` : ''}`, ok: true };
+        };
+      case 'date': {
+        const configured = mapping.dateFormats?.[column];
+        const format = configured && configured !== 'auto' ? configured : detectDateFormat(rows.map(row => row[column])).format;
+        return row => {
+          const date = parseDateValue(row[column], format);
+          return date ? { parsed: date.toLocaleDateString('es-PY'), ok: true } : { parsed: 'No es fecha', ok: false };
+        };
+      }
+      case 'amount':
+        return row => {
+          const { value, partial } = parseLocaleAmount(row[column], amountFormat);
+          const currency = mapping.currencyColumn
+            ? normalizeCurrency(row[mapping.currencyColumn], mapping.amountCurrency || BASE_CURRENCY)
+            : mapping.amountCurrency || BASE_CURRENCY;
+          return { parsed: formatCurrency(value, currency), ok: !partial };
+        };
+      default:
+        return row => ({ parsed: String(row[column]).trim(), ok: true });
+    }
+  };
+
+  return PREVIEW_FIELDS
+    .filter(({ field }) => mapping[field])
+    .map(({ field, label, kind, required }) => {
+      const column = mapping[field];
+      const read = getReader(kind, column);
+      const preview: FieldPreview = { field, label, column, required, examples: [], total: rows.length, empty: 0, invalid: 0 };
+      if (kind === 'date') {
+        preview.dateFormat = { configured: mapping.dateFormats?.[column] || 'auto', detection: detectDateFormat(rows.map(row => row[column])) };
+      }
+      rows.forEach(row => {
+        if (isEmpty(row[column])) {
+          preview.empty++;
+          return;
+        }
+        const { parsed, ok } = read(row);
+        if (!ok) preview.invalid++;
+        if (preview.examples.length < EXAMPLE_COUNT) preview.examples.push({ raw: showRaw(row[column]), parsed, ok });
+      });
+      return preview;
+    });
+};
+
+export const formatShare = (count: number, total: number): string => {
+  if (total === 0) return '0%';
+  const percent = (count / total) * 100;
+  return percent > 0 && percent < 1 ? '<1%' : `${Math.round(percent)}%`;
+};
+
+// Same cases the dashboard reports after processing: mixed orders, or ambiguous values read with the detected order
+export const describeDateFormatWarning = (preview: FieldPreview): string | null => {
+  if (!preview.dateFormat) return null;
+  const { configured, detection } = preview.dateFormat;
+  if (detection.inconsistent) return 'mezcla fechas DD/MM y MM/DD';
+  if (detection.ambiguous > 0 && configured === 'auto') {
+    return `${detection.ambiguous} fecha(s) ambiguas (p. ej. ${detection.examples.join(', ')}), se leerán como ${DATE_FORMAT_LABELS[detection.format]}`;
+  }
+  return null;
+};
+
+// "Fecha Entrega Real: 37% vacío, 4% no interpretable", or null when the field looks fine
+export const describePreviewWarning = (preview: FieldPreview): string | null => {
+  if (preview.total === 0) return null;
+  const parts: string[] = [];
+  if (preview.required && preview.empty / preview.total >= EMPTY_WARNING_SHARE) {
+    parts.push(`${formatShare(preview.empty, preview.total)} vacío`);
+  }
+  if (preview.invalid > 0) parts.push(`${formatShare(preview.invalid, preview.total)} no interpretable`);
+  const dateWarning = describeDateFormatWarning(preview);
+  if (dateWarning) parts.push(dateWarning);
+  return parts.length > 0 ? `${preview.label}: ${parts.join(', ')}` : null;
+};
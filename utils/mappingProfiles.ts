@@ -0,0 +1,88 @@
+import { ColumnMapping, MappingProfile } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const STORAGE_KEY = 'mapping-profiles';
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+// Order-insensitive signature of a sheet's headers, used to recognise the same ERP export
+export const getHeaderFingerprint = (headers: string[]): string => {
+  return Array.from(new Set(headers.map(normalizeHeader).filter(h => h !== '')))
+    .sort()
+    .join('|');
+};
+
+export const loadMappingProfiles = (): MappingProfile[] => {
+  const stored = loadFromStorage<MappingProfile[]>(STORAGE_KEY, []);
+  return Array.isArray(stored) ? stored : [];
+};
+
+export const saveMappingProfiles = (profiles: MappingProfile[]): void => {
+  saveToStorage(STORAGE_KEY, profiles);
+};
+
+export const findProfileForHeaders = (profiles: MappingProfile[], headers: string[]): MappingProfile | undefined => {
+  const fingerprint = getHeaderFingerprint(headers);
+  return profiles.find(p => p.fingerprint === fingerprint);
+};
+
+// Inserts or replaces (by name) a profile, keeping the list sorted alphabetically
+export const upsertProfile = (profiles: MappingProfile[], profile: MappingProfile): MappingProfile[] => {
+  return [...profiles.filter(p => p.name !== profile.name), profile]
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Drops any column reference the current sheet does not have, so a profile
+// from a slightly different export never points at a missing header
+export const adaptMappingToHeaders = (mapping: ColumnMapping, headers: string[]): ColumnMapping => {
+  const available = new Set(headers);
+  const pick = (col?: string) => (col && available.has(col) ? col : '');
+  return {
+    otNumber: pick(mapping.otNumber),
+    folio: pick(mapping.folio),
+    clientCode: pick(mapping.clientCode),
+    workshop: pick(mapping.workshop),
+    promisedDate: pick(mapping.promisedDate),
+    secondPromisedDate: pick(mapping.secondPromisedDate),
+    realDeliveryDate: pick(mapping.realDeliveryDate),
+    billingDate: pick(mapping.billingDate),
+    amount: pick(mapping.amount),
+    numberFormat: mapping.numberFormat,
+    amountCurrency: mapping.amountCurrency,
+    currencyColumn: pick(mapping.currencyColumn),
+    dateFormats: Object.fromEntries(Object.entries(mapping.dateFormats || {}).filter(([col]) => available.has(col))),
+    otType: pick(mapping.otType),
+    invoiceNumber: pick(mapping.invoiceNumber),
+    additionalFilters: (mapping.additionalFilters || []).filter(f => available.has(f))
+  };
+};
+
+export const exportProfilesToJson = (profiles: MappingProfile[]): void => {
+  const blob = new Blob([JSON.stringify(profiles, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'perfiles_mapeo.json';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const isProfile = (value: any): value is MappingProfile => {
+  return value
+    && typeof value.name === 'string'
+    && typeof value.fingerprint === 'string'
+    && Array.isArray(value.headers)
+    && value.mapping
+    && typeof value.mapping.otNumber === 'string'
+    && Array.isArray(value.mapping.additionalFilters);
+};
+
+export const parseProfilesJson = (text: string): MappingProfile[] => {
+  const data = JSON.parse(text);
+  const list = Array.isArray(data) ? data : [data];
+  const valid = list.filter(isProfile);
+  if (valid.length === 0) {
+    throw new Error('El archivo no contiene perfiles de mapeo válidos.');
+  }
+  return valid;
+};
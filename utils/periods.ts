@@ -0,0 +1,126 @@
+import { DateRange, ComparisonMode, ParsedOT, PeriodDateField, PeriodPreset } from '../types';
+
+export const MONTH_NAMES = [
+  "Enero", "Febrero", "Marzo", "Abril", "Mayo", "Junio",
+  "Julio", "Agosto", "Septiembre", "Octubre", "Noviembre", "Diciembre"
+];
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Same day n months later, clamped to the end of shorter months (31 Mar - 1 month = 28/29 Feb)
+const addMonths = (date: Date, months: number) => {
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate();
+  return new Date(date.getFullYear(), date.getMonth() + months, Math.min(date.getDate(), lastDay));
+};
+
+const isMonthStart = (date: Date) => date.getDate() === 1;
+const isMonthEnd = (date: Date) => addDays(date, 1).getDate() === 1;
+
+// Months covered by a range made of whole months, or null when it starts or ends mid-month
+const countWholeMonths = (range: DateRange): number | null => {
+  if (!isMonthStart(range.start) || !isMonthEnd(range.end)) return null;
+  return (range.end.getFullYear() - range.start.getFullYear()) * 12 + range.end.getMonth() - range.start.getMonth() + 1;
+};
+
+// Whole months are shifted as months so that e.g. February keeps its own length
+const shiftRange = (range: DateRange, months: number): DateRange => {
+  if (countWholeMonths(range) !== null) {
+    const start = new Date(range.start.getFullYear(), range.start.getMonth() + months, 1);
+    const end = new Date(range.end.getFullYear(), range.end.getMonth() + months + 1, 0);
+    return { start, end };
+  }
+  return { start: addMonths(range.start, months), end: addMonths(range.end, months) };
+};
+
+// Range covered by the year/month selectors ('all' means no restriction)
+export const getSelectedRange = (year: string, month: string): DateRange | null => {
+  if (year === 'all') return null;
+  const y = parseInt(year, 10);
+  if (month === 'all') return { start: new Date(y, 0, 1), end: new Date(y, 11, 31) };
+  const m = parseInt(month, 10);
+  return { start: new Date(y, m, 1), end: new Date(y, m + 1, 0) };
+};
+
+// Presets end on the reference date (the dashboard's cut-off date)
+export const getPresetRange = (preset: PeriodPreset, reference: Date): DateRange | null => {
+  const end = startOfDay(reference);
+  switch (preset) {
+    case 'last3Months':
+      return { start: addDays(addMonths(end, -3), 1), end };
+    case 'last12Months':
+      return { start: addDays(addMonths(end, -12), 1), end };
+    case 'ytd':
+      return { start: new Date(end.getFullYear(), 0, 1), end };
+    default:
+      return null;
+  }
+};
+
+// Resolves the current and reference ranges for a comparison mode.
+// - previous: the span of the same length right before (whole months are counted as months)
+// - lastYear: the same dates one year earlier
+// - ytd: January 1st up to the end of the range against the same span of the previous year
+export const getComparisonRanges = (
+  range: DateRange | null,
+  mode: ComparisonMode
+): { current: DateRange; previous: DateRange } | null => {
+  if (!range || mode === 'none') return null;
+
+  if (mode === 'ytd') {
+    const current = { start: new Date(range.end.getFullYear(), 0, 1), end: range.end };
+    return { current, previous: shiftRange(current, -12) };
+  }
+
+  if (mode === 'lastYear') {
+    return { current: range, previous: shiftRange(range, -12) };
+  }
+
+  // previous
+  const months = countWholeMonths(range);
+  if (months !== null) return { current: range, previous: shiftRange(range, -months) };
+  const days = Math.round((range.end.getTime() - range.start.getTime()) / 86400000) + 1;
+  return { current: range, previous: { start: addDays(range.start, -days), end: addDays(range.start, -1) } };
+};
+
+export const isDateInRange = (date: Date | null, range: DateRange | null): boolean => {
+  if (!range) return true;
+  if (!date) return false;
+  return date >= range.start && date < addDays(range.end, 1);
+};
+
+export const formatRange = (range: DateRange): string => {
+  const months = countWholeMonths(range);
+  const { start, end } = range;
+  if (months === null) return `${start.toLocaleDateString('es-PY')} – ${end.toLocaleDateString('es-PY')}`;
+  const short = (date: Date) => MONTH_NAMES[date.getMonth()].slice(0, 3);
+  if (months === 12 && start.getMonth() === 0) return `${start.getFullYear()}`;
+  if (months === 1) return `${MONTH_NAMES[start.getMonth()]} ${start.getFullYear()}`;
+  if (start.getFullYear() === end.getFullYear()) return `${short(start)}–${short(end)} ${end.getFullYear()}`;
+  return `${short(start)} ${start.getFullYear()}–${short(end)} ${end.getFullYear()}`;
+};
+
+export const PERIOD_DATE_FIELD_LABELS: Record<PeriodDateField, string> = {
+  billing: 'Fecha de facturación',
+  promised: 'Fecha prometida',
+  real: 'Fecha de entrega real'
+};
+
+// The promised date is the one used for compliance: the second estimate when present
+export const getPeriodDate = (ot: ParsedOT, field: PeriodDateField): Date | null => {
+  if (field === 'promised') return ot.secondEstimatedDate || ot.estimatedDate;
+  if (field === 'real') return ot.realDate;
+  return ot.billingDate;
+};
+
+// Conversions for <input type="date"> values (YYYY-MM-DD, local time)
+export const toInputDate = (date: Date): string => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const fromInputDate = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  return new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+};
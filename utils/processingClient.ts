@@ -0,0 +1,161 @@
+import {
+  AnalysisQuery, ColumnMapping, DashboardAnalysis, DedupStrategy, DelimitedTextOptions, ExcelRow, InternalClient, MappingSample, ParsedOT,
+  ProcessingProgress, ProcessResult, SheetLayout, SheetPreview, SheetRef, StatusOptions
+} from '../types';
+
+// --- Messages exchanged with workers/processing.worker.ts ---
+
+// An uploaded file plus, for CSV/TSV/TXT, the options it is decoded with
+export interface WorkerFile {
+  file: File;
+  textOptions?: DelimitedTextOptions;
+}
+
+export interface LoadedSheets {
+  fileName: string;
+  sheetNames: string[];
+  textOptions?: DelimitedTextOptions; // Options used, for delimited text files
+  layouts: Record<string, SheetLayout>; // Detected header rows by sheet name
+  previews: Record<string, SheetPreview>;
+}
+
+// Processed rows the dashboard analyses; the worker keeps its own copy between requests
+export interface AnalysisDataset {
+  uniqueOTs: ParsedOT[];
+  allRows: ParsedOT[];
+}
+
+export type WorkerRequest =
+  | { id: number; type: 'read'; files: WorkerFile[] }
+  | { id: number; type: 'sample'; files: WorkerFile[]; sources: SheetRef[] }
+  | {
+      id: number;
+      type: 'process';
+      files: WorkerFile[];
+      sources: SheetRef[];
+      mapping: ColumnMapping;
+      internalClients: InternalClient[];
+      statusOptions: StatusOptions;
+      dedupStrategy: DedupStrategy;
+    }
+  | { id: number; type: 'sourceRow'; files: WorkerFile[]; source: SheetRef; rowNumber: number }
+  | { id: number; type: 'analyze'; dataset?: AnalysisDataset; query: AnalysisQuery; knownClassification: number };
+
+// What each kind of request resolves to
+export interface WorkerResults {
+  read: LoadedSheets[];
+  sample: MappingSample;
+  process: ProcessResult;
+  sourceRow: ExcelRow | null;
+  analyze: DashboardAnalysis;
+}
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: ProcessingProgress }
+  | { id: number; type: 'done'; result: WorkerResults[keyof WorkerResults] }
+  | { id: number; type: 'error'; message: string };
+
+// Omit applied to each member of the union
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+type RequestPayload = DistributiveOmit<WorkerRequest, 'id'>;
+type RequestKind = RequestPayload['type'];
+
+interface PendingRequest {
+  resolve: (result: WorkerResults[RequestKind]) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (progress: ProcessingProgress) => void;
+}
+
+// One shared worker; it keeps the parsed workbooks so later requests skip re-reading
+let worker: Worker | null = null;
+let nextId = 1;
+// Rows the current worker holds, so analysis requests only send them when they changed
+let workerDataset: AnalysisDataset | null = null;
+const pending = new Map<number, PendingRequest>();
+
+const rejectAll = (error: unknown) => {
+  pending.forEach(request => request.reject(error));
+  pending.clear();
+};
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  workerDataset = null;
+  worker = new Worker(new URL('../workers/processing.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+    if (message.type === 'progress') {
+      request.onProgress?.(message.progress);
+      return;
+    }
+    pending.delete(message.id);
+    if (message.type === 'done') request.resolve(message.result);
+    else request.reject(new Error(message.message));
+  };
+  worker.onerror = (event) => {
+    rejectAll(new Error(event.message || 'Error en el proceso en segundo plano'));
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+// The worker answers each id with the result of that request's kind
+const send = <K extends RequestKind>(
+  payload: Extract<RequestPayload, { type: K }>,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<WorkerResults[K]> => {
+  const id = nextId++;
+  return new Promise<WorkerResults[K]>((resolve, reject) => {
+    pending.set(id, { resolve: result => resolve(result as WorkerResults[K]), reject, onProgress });
+    getWorker().postMessage({ ...payload, id });
+  });
+};
+
+export const readWorkbooks = (files: WorkerFile[], onProgress?: (progress: ProcessingProgress) => void) =>
+  send({ type: 'read', files }, onProgress);
+
+export const fetchMappingSample = (files: WorkerFile[], sources: SheetRef[]) =>
+  send({ type: 'sample', files, sources });
+
+export const processInWorker = (
+  files: WorkerFile[],
+  sources: SheetRef[],
+  mapping: ColumnMapping,
+  internalClients: InternalClient[],
+  statusOptions: StatusOptions,
+  dedupStrategy: DedupStrategy,
+  onProgress?: (progress: ProcessingProgress) => void
+) => send({ type: 'process', files, sources, mapping, internalClients, statusOptions, dedupStrategy }, onProgress)
+  .then(result => {
+    // The worker keeps what it just processed for the dashboard
+    workerDataset = { uniqueOTs: result.uniqueOTs, allRows: result.allRows };
+    return result;
+  });
+
+// Raw rows stay in the worker's workbooks; one is read back when the user opens it
+export const fetchSourceRow = (files: WorkerFile[], source: SheetRef, rowNumber: number) =>
+  send({ type: 'sourceRow', files, source, rowNumber });
+
+// Classification, filtering and stats of the dashboard. knownClassification is the classificationId
+// of the ClassifiedDataset the caller already holds (0 for none).
+export const analyzeInWorker = (dataset: AnalysisDataset, query: AnalysisQuery, knownClassification: number) => {
+  getWorker();
+  const holdsDataset = workerDataset !== null
+    && workerDataset.uniqueOTs === dataset.uniqueOTs && workerDataset.allRows === dataset.allRows;
+  workerDataset = dataset;
+  return send({ type: 'analyze', dataset: holdsDataset ? undefined : dataset, query, knownClassification });
+};
+
+// Parsing is synchronous inside the worker, so cancelling means stopping it altogether.
+// The next request starts a fresh worker that reads the files again.
+export const cancelProcessing = () => {
+  if (!worker) return;
+  worker.terminate();
+  worker = null;
+  rejectAll(new DOMException('Procesamiento cancelado', 'AbortError'));
+};
+
+export const isCancelled = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
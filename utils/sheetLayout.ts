@@ -0,0 +1,171 @@
+import * as XLSX from 'xlsx';
+import { ExcelRow, SheetLayout, SheetPreview } from '../types';
+
+// Only the top of the sheet is searched for the header row
+const HEADER_SCAN_ROWS = 30;
+const PREVIEW_ROWS = 12;
+const PREVIEW_COLUMNS = 8;
+
+// First value of the row reads "Total", "Subtotal", "Totales", "Total general"...
+const SUBTOTAL_LABEL = /^(sub\s*-?\s*)?totale?s?\b/i;
+// Numbers, amounts and dates typed as text do not count as labels
+const NON_LABEL_TEXT = /^[\d\s.,:;/\-+$%()]+$/;
+
+const isBlank = (value: any) => value === null || value === undefined || String(value).trim() === '';
+
+// Totals and counts, as numbers or typed as text ("1.500.000", "85%"); dates are not
+const isNumberCell = (value: any) => typeof value === 'number' || (typeof value === 'string' && /^[\d\s.,\-+$%()]+$/.test(value.trim()));
+
+const isLabel = (value: any) => typeof value === 'string' && value.trim() !== '' && !NON_LABEL_TEXT.test(value.trim());
+
+const cellText = (value: any): string => {
+  if (isBlank(value)) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value).trim();
+};
+
+const getRange = (sheet: XLSX.WorkSheet) => (sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']) : null);
+
+// Every row of the used range, blank ones included, so index + range start = sheet row
+const readMatrix = (sheet: XLSX.WorkSheet, maxRows?: number): any[][] => {
+  const range = getRange(sheet);
+  if (!range) return [];
+  if (maxRows !== undefined) range.e.r = Math.min(range.e.r, range.s.r + maxRows - 1);
+  return XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1, blankrows: true, defval: null, range });
+};
+
+// A "Total ..." label only marks a subtotal when the row carries no OT of its own: the key column
+// (cell index, -1 when unknown) is empty, or every other value is a number. "Total Lubricantes"
+// next to an OT number and a workshop is a data row.
+export const isSubtotalRow = (cells: any[], keyIndex: number) => {
+  const first = cells.findIndex(cell => !isBlank(cell));
+  if (first === -1 || typeof cells[first] !== 'string' || !SUBTOTAL_LABEL.test(cells[first].trim())) return false;
+  if (keyIndex >= 0 && keyIndex !== first && isBlank(cells[keyIndex])) return true;
+  return cells.every((cell, c) => c === first || isBlank(cell) || isNumberCell(cell));
+};
+
+// The header row is the one with the most distinct labels and the fewest numbers or dates,
+// which skips report titles, date ranges and blank rows above the table
+export const detectSheetLayout = (sheet: XLSX.WorkSheet): SheetLayout => {
+  const range = getRange(sheet);
+  const matrix = readMatrix(sheet, HEADER_SCAN_ROWS);
+  const firstRow = range ? range.s.r : 0;
+
+  let headerIndex = 0;
+  let bestScore = -Infinity;
+  matrix.forEach((cells, index) => {
+    const filled = cells.filter(cell => !isBlank(cell));
+    const labels = new Set(filled.filter(isLabel).map(cell => String(cell).trim().toLowerCase()));
+    if (labels.size < 2) return;
+    const score = labels.size - 2 * (filled.length - labels.size);
+    if (score > bestScore) {
+      bestScore = score;
+      headerIndex = index;
+    }
+  });
+
+  return {
+    headerRow: firstRow + headerIndex + 1,
+    headerRowCount: hasSecondHeaderRow(sheet, matrix, headerIndex, firstRow) ? 2 : 1,
+    detected: true
+  };
+};
+
+// A second header row holds only labels and fills the gaps left by merged cells above it
+const hasSecondHeaderRow = (sheet: XLSX.WorkSheet, matrix: any[][], headerIndex: number, firstRow: number) => {
+  const top = matrix[headerIndex] || [];
+  const below = matrix[headerIndex + 1] || [];
+  const filledBelow = below.filter(cell => !isBlank(cell));
+  if (filledBelow.length < 2 || !filledBelow.every(isLabel)) return false;
+
+  const headerRow = firstRow + headerIndex;
+  const mergedAcross = (sheet['!merges'] || []).some(m => m.s.r === headerRow && m.e.c > m.s.c);
+  const fillsGaps = below.some((cell, c) => !isBlank(cell) && isBlank(top[c]));
+  return mergedAcross || fillsGaps;
+};
+
+// Column names for the layout; a merged label on the first row prefixes each sub-header below it.
+// Repeated names get a numeric suffix like SheetJS does (Fecha, Fecha_1)
+export const buildHeaders = (sheet: XLSX.WorkSheet, layout: SheetLayout): string[] => {
+  const range = getRange(sheet);
+  if (!range) return [];
+  const matrix = readMatrix(sheet, layout.headerRow - range.s.r + layout.headerRowCount);
+  const topIndex = layout.headerRow - 1 - range.s.r;
+  const top = (matrix[topIndex] || []).map(cellText);
+  const below = layout.headerRowCount === 2 ? (matrix[topIndex + 1] || []).map(cellText) : [];
+
+  if (layout.headerRowCount === 2) {
+    (sheet['!merges'] || []).forEach(m => {
+      if (m.s.r !== layout.headerRow - 1 || m.e.c === m.s.c) return;
+      const label = top[m.s.c - range.s.c];
+      for (let c = m.s.c; c <= m.e.c; c++) top[c - range.s.c] = label;
+    });
+  }
+
+  const width = Math.max(top.length, below.length);
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, c) => {
+    const name = [top[c], below[c]].filter(Boolean).join(' ');
+    if (!name) return '';
+    const count = seen.get(name) ?? 0;
+    seen.set(name, count + 1);
+    return count ? `${name}_${count}` : name;
+  });
+};
+
+// Cells keyed by column name; __rowNum__ keeps the 0-based sheet row as SheetJS does
+const toRow = (headers: string[], cells: any[], sheetRow: number): ExcelRow => {
+  const row: ExcelRow = {};
+  headers.forEach((header, c) => {
+    if (header && !isBlank(cells[c])) row[header] = cells[c];
+  });
+  Object.defineProperty(row, '__rowNum__', { value: sheetRow, enumerable: false });
+  return row;
+};
+
+// Data rows below the headers keyed by column name. Blank rows and total/subtotal rows are skipped
+// (keyColumn is the OT number column, when already mapped); __rowNum__ keeps the 0-based sheet row as SheetJS does
+export const readSheetRows = (
+  sheet: XLSX.WorkSheet,
+  layout: SheetLayout,
+  keyColumn?: string
+): { rows: ExcelRow[]; subtotalRows: number } => {
+  const range = getRange(sheet);
+  if (!range) return { rows: [], subtotalRows: 0 };
+  const headers = buildHeaders(sheet, layout);
+  const keyIndex = keyColumn ? headers.indexOf(keyColumn) : -1;
+  const matrix = readMatrix(sheet);
+  const rows: ExcelRow[] = [];
+  let subtotalRows = 0;
+
+  for (let index = layout.headerRow - 1 - range.s.r + layout.headerRowCount; index < matrix.length; index++) {
+    const cells = matrix[index];
+    if (!cells || cells.every(isBlank)) continue;
+    if (isSubtotalRow(cells, keyIndex)) {
+      subtotalRows++;
+      continue;
+    }
+    rows.push(toRow(headers, cells, range.s.r + index));
+  }
+  return { rows, subtotalRows };
+};
+
+// One data row by its 1-based sheet row, read on its own; null above the data or outside the sheet
+export const readSheetRow = (sheet: XLSX.WorkSheet, layout: SheetLayout, rowNumber: number): ExcelRow | null => {
+  const range = getRange(sheet);
+  const r = rowNumber - 1;
+  if (!range || r < layout.headerRow - 1 + layout.headerRowCount || r > range.e.r) return null;
+  const [cells] = XLSX.utils.sheet_to_json<any[]>(sheet, {
+    header: 1, blankrows: true, defval: null, range: { s: { r, c: range.s.c }, e: { r, c: range.e.c } }
+  });
+  return cells ? toRow(buildHeaders(sheet, layout), cells, r) : null;
+};
+
+// Top-left corner of the sheet, for picking the header row by hand
+export const getSheetPreview = (sheet: XLSX.WorkSheet): SheetPreview => {
+  const range = getRange(sheet);
+  return {
+    firstRow: range ? range.s.r + 1 : 1,
+    rows: readMatrix(sheet, PREVIEW_ROWS).map(cells => cells.slice(0, PREVIEW_COLUMNS).map(cellText))
+  };
+};
@@ -0,0 +1,62 @@
+import { GlobalStats, SlaSettings, SlaTarget, SlaLevel, WorkshopStats } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const STORAGE_KEY = 'sla-settings';
+
+export const DEFAULT_SLA_SETTINGS: SlaSettings = {
+  global: { target: 90, warning: 80 },
+  overrides: {}
+};
+
+export const loadSlaSettings = (): SlaSettings => {
+  const stored = loadFromStorage<Partial<SlaSettings>>(STORAGE_KEY, {});
+  return {
+    global: stored.global || DEFAULT_SLA_SETTINGS.global,
+    overrides: stored.overrides || {}
+  };
+};
+
+export const saveSlaSettings = (settings: SlaSettings): void => {
+  saveToStorage(STORAGE_KEY, settings);
+};
+
+export const getTargetFor = (settings: SlaSettings, workshop?: string): SlaTarget => {
+  return (workshop && settings.overrides[workshop]) || settings.global;
+};
+
+export const getSlaLevel = (rate: number, target: SlaTarget): SlaLevel => {
+  if (rate >= target.target) return 'green';
+  if (rate >= target.warning) return 'yellow';
+  return 'red';
+};
+
+export interface WorkshopSla {
+  workshop: WorkshopStats;
+  target: number; // The workshop's own target (override or global)
+  gap: number; // Percentage points above (+) or below (-) the target
+  level: SlaLevel;
+}
+
+export const getWorkshopSla = (stats: GlobalStats, settings: SlaSettings): WorkshopSla[] => {
+  return stats.workshops.map(workshop => {
+    const target = getTargetFor(settings, workshop.name);
+    return {
+      workshop,
+      target: target.target,
+      gap: workshop.complianceRate - target.target,
+      level: getSlaLevel(workshop.complianceRate, target)
+    };
+  });
+};
+
+export const SLA_COLORS: Record<SlaLevel, string> = {
+  green: '#22c55e', // green-500
+  yellow: '#eab308', // yellow-500
+  red: '#ef4444' // red-500
+};
+
+export const SLA_LABELS: Record<SlaLevel, string> = {
+  green: 'En meta',
+  yellow: 'En alerta',
+  red: 'Crítico'
+};
@@ -0,0 +1,93 @@
+import { ParsedOT, OTStatus, StatusOptions, StatusResult } from '../types';
+import { DEFAULT_CALENDAR_SETTINGS, countDaysAfter } from './calendar';
+
+// Single source of truth for on-time / late / pending classification.
+// Stats, badges and exports all read the StatusResult stored in ParsedOT.status.
+
+export const STATUS_LABELS: Record<OTStatus, string> = {
+  onTime: 'A Tiempo',
+  late: 'Retraso',
+  pendingOverdue: 'Pendiente vencido',
+  pendingOnTrack: 'Pendiente en plazo',
+  noDate: 'Sin Fecha'
+};
+
+export const getDefaultStatusOptions = (): StatusOptions => ({
+  asOfDate: new Date(),
+  countOverdueAsLate: false,
+  calendar: DEFAULT_CALENDAR_SETTINGS
+});
+
+const startOfDay = (date: Date) => {
+  const copy = new Date(date);
+  copy.setHours(0, 0, 0, 0);
+  return copy;
+};
+
+type ClassifiableOT = Pick<ParsedOT, 'estimatedDate' | 'secondEstimatedDate' | 'realDate'>;
+
+// Classifies an OT against its target date (second estimate when present).
+// Both dates are compared at midnight, so the time of delivery never matters.
+// Lateness within the grace days counts as on time.
+// Undelivered OTs are split by the reference date: past the target is overdue.
+export const classifyOT = (ot: ClassifiableOT, options: StatusOptions): StatusResult => {
+  const targetSource = ot.secondEstimatedDate ? 'secondEstimatedDate' : ot.estimatedDate ? 'estimatedDate' : null;
+  const targetDate = ot.secondEstimatedDate || ot.estimatedDate;
+
+  if (!targetDate) {
+    return {
+      status: 'noDate',
+      label: STATUS_LABELS.noDate,
+      targetDate: null,
+      targetSource: null,
+      dayOffset: null,
+      daysLate: null,
+      reason: ot.realDate
+        ? 'Entregada, pero sin fecha prometida para evaluar'
+        : 'Sin fecha prometida ni fecha de entrega'
+    };
+  }
+
+  const { calendar } = options;
+  const units = (n: number) => calendar.useBusinessDays
+    ? `${n} ${n === 1 ? 'día hábil' : 'días hábiles'}`
+    : `${n} ${n === 1 ? 'día' : 'días'}`;
+  const target = startOfDay(targetDate);
+  const end = startOfDay(ot.realDate || options.asOfDate);
+  const lateness = countDaysAfter(target, end, calendar);
+  const dayOffset = lateness > 0 ? lateness : -countDaysAfter(end, target, calendar);
+  const isLate = lateness > calendar.graceDays;
+  const targetName = targetSource === 'secondEstimatedDate' ? '2da fecha estimada' : 'fecha estimada';
+
+  const build = (status: OTStatus, reason: string): StatusResult => ({
+    status,
+    label: STATUS_LABELS[status],
+    targetDate,
+    targetSource,
+    dayOffset,
+    daysLate: status === 'late' ? lateness : null,
+    reason
+  });
+
+  if (ot.realDate) {
+    if (isLate) return build('late', `Entregada ${units(lateness)} después de la ${targetName}`);
+    if (lateness > 0) return build('onTime', `Entregada ${units(lateness)} después de la ${targetName}, dentro de la tolerancia`);
+    if (dayOffset < 0) return build('onTime', `Entregada ${units(-dayOffset)} antes de la ${targetName}`);
+    return build('onTime', `Entregada en la ${targetName}`);
+  }
+
+  const asOf = options.asOfDate.toLocaleDateString('es-PY');
+  if (isLate) {
+    return options.countOverdueAsLate
+      ? build('late', `Sin entrega; vencida hace ${units(lateness)} al ${asOf} (se cuenta como retraso)`)
+      : build('pendingOverdue', `Sin entrega; vencida hace ${units(lateness)} al ${asOf}`);
+  }
+  return build('pendingOnTrack', lateness > 0
+    ? `Sin entrega; ${units(lateness)} después de la ${targetName}, dentro de la tolerancia`
+    : `Sin entrega; faltan ${units(-dayOffset)} para la ${targetName}`);
+};
+
+// Returns copies of the OTs with status computed for the given options
+export const applyStatus = (ots: ParsedOT[], options: StatusOptions): ParsedOT[] => {
+  return ots.map(ot => ({ ...ot, status: classifyOT(ot, options) }));
+};
@@ -0,0 +1,23 @@
+// Small wrappers around localStorage so settings survive reloads.
+// All keys are namespaced to avoid collisions with other apps on the same origin.
+
+const PREFIX = 'ot-dashboard:';
+
+export const loadFromStorage = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(PREFIX + key);
+    if (raw === null) return fallback;
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`No se pudo leer la configuración "${key}"`, error);
+    return fallback;
+  }
+};
+
+export const saveToStorage = <T>(key: string, value: T): void => {
+  try {
+    window.localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`No se pudo guardar la configuración "${key}"`, error);
+  }
+};
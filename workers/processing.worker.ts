@@ -0,0 +1,109 @@
+/// <reference lib="webworker" />
+import * as XLSX from 'xlsx';
+import { SheetRef, SheetSource, DelimitedTextOptions, ClassifiedDataset } from '../types';
+import { loadWorkbook, getMappingSample, processSheets, getSourceRow } from '../utils/excelHelpers';
+import { detectSheetLayout, getSheetPreview } from '../utils/sheetLayout';
+import { classifyDataset, analyzeDataset, getClassificationKey } from '../utils/dashboardAnalysis';
+import type { WorkerRequest, WorkerResponse, LoadedSheets, WorkerFile, AnalysisDataset } from '../utils/processingClient';
+
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+// Parsed workbooks by file name; lost (and rebuilt on demand) when the worker is cancelled
+const workbooks = new Map<string, { workbook: XLSX.WorkBook; textOptions?: DelimitedTextOptions }>();
+
+// Last processed (or received) rows and their latest classification, reused while only filters change
+let dataset: AnalysisDataset | null = null;
+let classification: { key: string; id: number; data: ClassifiedDataset } | null = null;
+let nextClassificationId = 1;
+
+const post = (message: WorkerResponse) => ctx.postMessage(message);
+
+const ensureWorkbooks = async (files: WorkerFile[], onRead?: (file: File, index: number, total: number) => void) => {
+  for (const [index, { file, textOptions }] of files.entries()) {
+    if (workbooks.has(file.name)) continue;
+    onRead?.(file, index, files.length);
+    const loaded = await loadWorkbook(file, textOptions);
+    workbooks.set(file.name, { workbook: loaded.workbook, textOptions: loaded.textOptions });
+  }
+};
+
+const toSources = (refs: SheetRef[]): SheetSource[] => refs.map(ref => {
+  const loaded = workbooks.get(ref.fileName);
+  if (!loaded) throw new Error(`El archivo ${ref.fileName} no está cargado`);
+  return { ...ref, workbook: loaded.workbook, numberFormat: loaded.textOptions?.numberFormat };
+});
+
+ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  const { id } = request;
+  try {
+    const reportReading = (file: File, index: number, total: number) => post({
+      id,
+      type: 'progress',
+      progress: { stage: 'reading', done: index, total, detail: file.name }
+    });
+
+    switch (request.type) {
+      case 'read': {
+        // Re-uploading a file with the same name (or new text options) replaces the cached workbook
+        request.files.forEach(({ file }) => workbooks.delete(file.name));
+        await ensureWorkbooks(request.files, reportReading);
+        const result: LoadedSheets[] = request.files.map(({ file }) => {
+          const { workbook, textOptions } = workbooks.get(file.name)!;
+          const entry: LoadedSheets = { fileName: file.name, sheetNames: workbook.SheetNames, textOptions, layouts: {}, previews: {} };
+          workbook.SheetNames.forEach(sheetName => {
+            entry.layouts[sheetName] = detectSheetLayout(workbook.Sheets[sheetName]);
+            entry.previews[sheetName] = getSheetPreview(workbook.Sheets[sheetName]);
+          });
+          return entry;
+        });
+        post({ id, type: 'done', result });
+        break;
+      }
+      case 'sample': {
+        await ensureWorkbooks(request.files, reportReading);
+        post({ id, type: 'done', result: getMappingSample(toSources(request.sources)) });
+        break;
+      }
+      case 'process': {
+        await ensureWorkbooks(request.files, reportReading);
+        const result = processSheets(
+          toSources(request.sources),
+          request.mapping,
+          request.internalClients,
+          request.statusOptions,
+          request.dedupStrategy,
+          progress => post({ id, type: 'progress', progress })
+        );
+        dataset = { uniqueOTs: result.uniqueOTs, allRows: result.allRows };
+        classification = null;
+        post({ id, type: 'done', result });
+        break;
+      }
+      case 'sourceRow': {
+        await ensureWorkbooks(request.files, reportReading);
+        const [source] = toSources([request.source]);
+        post({ id, type: 'done', result: getSourceRow(source, request.rowNumber) });
+        break;
+      }
+      case 'analyze': {
+        if (request.dataset) {
+          dataset = request.dataset;
+          classification = null;
+        }
+        if (!dataset) throw new Error('No hay datos procesados para analizar');
+        const key = getClassificationKey(request.query);
+        if (!classification || classification.key !== key) {
+          classification = { key, id: nextClassificationId++, data: classifyDataset(dataset.uniqueOTs, dataset.allRows, request.query) };
+        }
+        const result = analyzeDataset(classification.data, request.query, classification.id);
+        // Rows sent along mean a fresh worker, whose ids may repeat those of the one before
+        if (request.dataset || request.knownClassification !== classification.id) result.classified = classification.data;
+        post({ id, type: 'done', result });
+        break;
+      }
+    }
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};